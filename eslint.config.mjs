@@ -10,7 +10,7 @@ export default [
     languageOptions: {
       parser: tsParser,
       parserOptions: {
-        project: './tsconfig.json', // Path to your tsconfig.json
+        project: ['./tsconfig.json', './test/tsconfig.json'], // Paths to your tsconfig.json files
       },
     }
   },
@@ -0,0 +1,185 @@
+#!/usr/bin/env node
+import path from 'path';
+import { REST } from 'discord.js';
+import { CommandList } from '../model/SimpleDiscordModels';
+import { CommandRegistrar } from '../services/CommandRegistrar';
+import { CommandDiff, summarizeDiff } from '../utils/CommandDiff';
+import { CommandLocaleOptions } from '../utils/CommandLocalizer';
+import {
+	diffManifests,
+	readManifest,
+	writeManifest,
+} from '../utils/CommandManifest';
+
+const USAGE = `Usage:
+  simple-discordbot-commands export <module> <manifest.json> [devGuildId] [--locale-directory <dir> --locales <fr,en> [--locale <fr>]]
+      Loads the CommandList exported by <module> (as "commandList" or default export) and writes its manifest
+      With the locale files of the bot, the manifest includes the localizations the bot registers
+  simple-discordbot-commands diff <previous.json> <next.json>
+      Compares two manifests, exits with code 1 when they differ
+  simple-discordbot-commands deploy <manifest.json> [--prune true]
+      Registers the manifest commands, using the DISCORD_TOKEN and DISCORD_ID environment variables
+      With --prune true, registered commands missing from the manifest are deleted`;
+
+/**
+ * Splits command line arguments into positional arguments and `--name value` flags
+ * @param args Command line arguments
+ * @returns The positional arguments and the flags
+ * @throws Error if a flag has no value
+ */
+const parseArgs = (
+	args: string[]
+): { positional: string[]; flags: Record<string, string> } => {
+	const positional: string[] = [];
+	const flags: Record<string, string> = {};
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i]!;
+		if (!arg.startsWith('--')) {
+			positional.push(arg);
+			continue;
+		}
+		const value = args[++i];
+		if (value === undefined) throw new Error(`Missing value for ${arg}`);
+		flags[arg.slice(2)] = value;
+	}
+	return { positional, flags };
+};
+
+/**
+ * Gets the locale files given to the export, named as in the bot configuration
+ * @param flags The command line flags
+ * @returns The locale options, or undefined if no locale directory is given
+ * @throws Error if the locale directory is given without locales
+ */
+const getLocaleOptions = (
+	flags: Record<string, string>
+): CommandLocaleOptions | undefined => {
+	const directory = flags['locale-directory'];
+	if (!directory) return undefined;
+	const locales = (flags.locales ?? '')
+		.split(',')
+		.map((locale) => locale.trim())
+		.filter((locale) => locale.length > 0);
+	if (locales.length === 0)
+		throw new Error('--locales is required with --locale-directory');
+	return {
+		locale_directory: path.resolve(directory),
+		available_locale: locales,
+		locale: flags.locale ?? locales[0]!,
+	};
+};
+
+/**
+ * Prints the diff of each scope
+ * @param diffs The diffs keyed by scope
+ */
+const printDiffs = (diffs: Record<string, CommandDiff>) => {
+	for (const [scope, diff] of Object.entries(diffs)) {
+		console.log(
+			`${scope === 'global' ? 'global' : `guild ${scope}`} : ${summarizeDiff(diff)}`
+		);
+	}
+};
+
+/**
+ * Exports the manifest of the CommandList exported by a module
+ * @param modulePath Path of the module exporting the CommandList
+ * @param manifestPath Path of the manifest file to write
+ * @param devGuildId The development guild used by commands with a DEV scope
+ * @param locales The locale files of the bot, if any
+ */
+const exportCommand = (
+	modulePath: string,
+	manifestPath: string,
+	devGuildId?: string,
+	locales?: CommandLocaleOptions
+) => {
+	// eslint-disable-next-line @typescript-eslint/no-require-imports
+	const exported = require(path.resolve(modulePath));
+	const commandList = exported.commandList ?? exported.default;
+	if (typeof commandList?.buildByScope !== 'function')
+		throw new Error(
+			`${modulePath} must export a CommandList as "commandList" or default export`
+		);
+	const manifest = writeManifest(
+		commandList as CommandList<unknown>,
+		manifestPath,
+		devGuildId,
+		locales
+	);
+	const guildCount = Object.keys(manifest.guilds).length;
+	console.log(
+		`Exported ${manifest.global.length} global command(s) and ${guildCount} guild scope(s) to ${manifestPath}`
+	);
+};
+
+/**
+ * Compares two manifests
+ * @param previousPath Path of the previous manifest
+ * @param nextPath Path of the new manifest
+ * @returns The process exit code, 1 when the manifests differ
+ */
+const diffCommand = (previousPath: string, nextPath: string): number => {
+	const diffs = diffManifests(
+		readManifest(previousPath),
+		readManifest(nextPath)
+	);
+	if (Object.keys(diffs).length === 0) {
+		console.log('Manifests are identical');
+		return 0;
+	}
+	printDiffs(diffs);
+	return 1;
+};
+
+/**
+ * Deploys a manifest to Discord
+ * @param manifestPath Path of the manifest to deploy
+ * @param prune Whether registered commands missing from the manifest are deleted
+ */
+const deployCommand = async (manifestPath: string, prune: boolean) => {
+	const token = process.env.DISCORD_TOKEN;
+	const applicationId = process.env.DISCORD_ID;
+	if (!token || !applicationId)
+		throw new Error(
+			'DISCORD_TOKEN and DISCORD_ID environment variables are required'
+		);
+
+	const rest = new REST({ version: '10' }).setToken(token);
+	const diffs = await new CommandRegistrar(rest, applicationId, prune).syncAll(
+		readManifest(manifestPath)
+	);
+	printDiffs(diffs);
+};
+
+/**
+ * Runs the CLI
+ * @param args Command line arguments, without the node executable and script path
+ * @returns The process exit code
+ */
+const run = async (args: string[]): Promise<number> => {
+	const { positional, flags } = parseArgs(args);
+	const [action, ...params] = positional;
+	switch (action) {
+		case 'export':
+			if (params.length < 2) break;
+			exportCommand(params[0]!, params[1]!, params[2], getLocaleOptions(flags));
+			return 0;
+		case 'diff':
+			if (params.length < 2) break;
+			return diffCommand(params[0]!, params[1]!);
+		case 'deploy':
+			if (params.length < 1) break;
+			await deployCommand(params[0]!, flags.prune === 'true');
+			return 0;
+	}
+	console.error(USAGE);
+	return 2;
+};
+
+run(process.argv.slice(2))
+	.then((code) => process.exit(code))
+	.catch((e: any) => {
+		console.error(e.message);
+		process.exit(2);
+	});
@@ -2,26 +2,234 @@ import { SimpleDiscordBot } from '../services/SimpleDiscordBot.js';
 import { Loggers } from '../services/LoggerManager.js';
 import { LocaleError } from '../model/LocaleError.js';
 import { MainApi } from '../api/MainApi.js';
+import { CommandScope, CommandScopeType } from '../model/CommandScope.js';
+import { EventHandler } from '../model/EventHandler.js';
+import type { AnyEventHandler } from '../model/EventHandler.js';
+import { ScheduledJob } from '../model/ScheduledJob.js';
+import { Scheduler } from '../services/Scheduler.js';
+import { CronExpression } from '../utils/CronExpression.js';
+import { ManualClock, systemClock } from '../utils/Clock.js';
+import type { Clock } from '../utils/Clock.js';
+import type { LifecycleHooks } from '../model/LifecycleHooks.js';
+import { CommandRegistrar } from '../services/CommandRegistrar.js';
+import { LocaleSource } from '../model/LocaleSource.js';
+import {
+	DEFAULT_LOCALE_CHAIN,
+	LocaleResolver,
+} from '../services/LocaleResolver.js';
+import type { GuildLocaleOverride } from '../services/LocaleResolver.js';
+import { Cooldown, CooldownBucket } from '../model/Cooldown.js';
+import { AutoDefer } from '../model/AutoDefer.js';
+import {
+	CommandContext,
+	CommandIntegrationType,
+} from '../model/CommandContext.js';
+import { CooldownManager } from '../services/CooldownManager.js';
+import { diffCommands } from '../utils/CommandDiff.js';
+import {
+	InteractionStateStore,
+	MemoryStateStorage,
+} from '../services/InteractionStateStore.js';
+import type { StateStorage } from '../services/InteractionStateStore.js';
+import {
+	createManifest,
+	diffManifests,
+	parseManifest,
+	readManifest,
+	serializeManifest,
+	writeManifest,
+} from '../utils/CommandManifest.js';
+import type { CommandManifest } from '../utils/CommandManifest.js';
+import { decodeCustomId, encodeCustomId } from '../utils/CustomIdCodec.js';
+import {
+	CommandLocalizer,
+	isValidCommandName,
+} from '../utils/CommandLocalizer.js';
+import {
+	formatLocaleIssues,
+	LocaleIssueType,
+	validateCatalogs,
+	validateLocales,
+} from '../utils/LocaleValidator.js';
+import type {
+	LocaleIssue,
+	LocaleValidationMode,
+} from '../utils/LocaleValidator.js';
+import type {
+	PayloadFieldType,
+	PayloadOf,
+	PayloadSchema,
+} from '../utils/CustomIdCodec.js';
 import type { SimpleDiscordBotConfig } from '../model/SimpleDiscordBotConfig.js';
 import {
+	AnyCommandOption,
 	AutoCompleteCommand,
 	ButtonCommand,
 	Command,
+	CommandArgs,
 	CommandList,
 	CommandOption,
+	MessageContextCommand,
 	ModalSubmitCommand,
+	OptionAutocompleteHandler,
+	OptionAutocompleteOptions,
+	SelectMenuCommand,
+	SelectMenuSelection,
+	SubCommand,
+	SubCommandGroup,
+	UserContextCommand,
 } from '../model/SimpleDiscordModels.js';
+import type {
+	CommandDefinition,
+	CommandOptionDefinition,
+	ScopedCommandDefinitions,
+} from '../model/CommandDefinition.js';
+import type { CommandDiff, RegisteredCommand } from '../utils/CommandDiff.js';
+import { Paginator } from '../model/Paginator.js';
+import { ModalDefinition, ModalField } from '../model/ModalDefinition.js';
+import { Wizard, WIZARD_SUBMIT_ACTION } from '../model/Wizard.js';
+import { PrefixCommandInteraction } from '../model/PrefixCommandInteraction.js';
+import {
+	parsePrefixOptions,
+	stripPrefix,
+	tokenize,
+} from '../utils/PrefixCommandParser.js';
+import type { PrefixCommandOptions } from '../utils/PrefixCommandParser.js';
+import type {
+	WizardEvent,
+	WizardInteraction,
+	WizardMessage,
+	WizardStartOptions,
+	WizardStep,
+	WizardTransition,
+	WizardView,
+} from '../model/Wizard.js';
+import type {
+	AnyModalField,
+	ModalFieldOptions,
+	ModalFieldValidator,
+	ModalParseResult,
+	ModalValues,
+	Translator,
+} from '../model/ModalDefinition.js';
+import {
+	AUTOCOMPLETE_MAX_CHOICES,
+	filterChoices,
+} from '../utils/Autocomplete.js';
+import type { AutocompleteCandidate } from '../utils/Autocomplete.js';
+import type {
+	PaginatorPage,
+	PaginatorPages,
+	PaginatorReplyOptions,
+} from '../model/Paginator.js';
+import type { InvocationContext } from '../model/InvocationContext.js';
+import type { Middleware, MiddlewareContext } from '../model/Middleware.js';
 
 export {
 	SimpleDiscordBot,
 	CommandList,
 	Command,
 	CommandOption,
+	SubCommand,
+	SubCommandGroup,
 	ModalSubmitCommand,
 	ButtonCommand,
+	SelectMenuCommand,
+	ModalDefinition,
+	ModalField,
+	Wizard,
+	WIZARD_SUBMIT_ACTION,
+	PrefixCommandInteraction,
+	EventHandler,
+	ScheduledJob,
+	Scheduler,
+	CronExpression,
+	ManualClock,
+	systemClock,
+	parsePrefixOptions,
+	stripPrefix,
+	tokenize,
 	AutoCompleteCommand,
+	UserContextCommand,
+	MessageContextCommand,
+	Paginator,
+	filterChoices,
+	AUTOCOMPLETE_MAX_CHOICES,
+	CommandScope,
+	CommandScopeType,
+	CommandRegistrar,
+	CommandContext,
+	CommandIntegrationType,
+	Cooldown,
+	CooldownBucket,
+	AutoDefer,
+	LocaleSource,
+	LocaleResolver,
+	DEFAULT_LOCALE_CHAIN,
+	CooldownManager,
+	diffCommands,
+	createManifest,
+	serializeManifest,
+	parseManifest,
+	writeManifest,
+	readManifest,
+	diffManifests,
+	encodeCustomId,
+	decodeCustomId,
+	CommandLocalizer,
+	isValidCommandName,
+	validateLocales,
+	validateCatalogs,
+	formatLocaleIssues,
+	LocaleIssueType,
+	InteractionStateStore,
+	MemoryStateStorage,
 	LocaleError,
 	Loggers,
 	MainApi,
 };
-export type { SimpleDiscordBotConfig };
+export type {
+	SimpleDiscordBotConfig,
+	Clock,
+	LifecycleHooks,
+	CommandDefinition,
+	CommandOptionDefinition,
+	ScopedCommandDefinitions,
+	CommandDiff,
+	RegisteredCommand,
+	CommandManifest,
+	PayloadFieldType,
+	PayloadOf,
+	PayloadSchema,
+	StateStorage,
+	GuildLocaleOverride,
+	PaginatorPage,
+	PaginatorPages,
+	PaginatorReplyOptions,
+	LocaleIssue,
+	LocaleValidationMode,
+	InvocationContext,
+	Middleware,
+	MiddlewareContext,
+	CommandArgs,
+	AnyCommandOption,
+	OptionAutocompleteHandler,
+	OptionAutocompleteOptions,
+	AutocompleteCandidate,
+	SelectMenuSelection,
+	AnyModalField,
+	ModalFieldOptions,
+	ModalFieldValidator,
+	ModalParseResult,
+	ModalValues,
+	Translator,
+	WizardEvent,
+	WizardInteraction,
+	WizardMessage,
+	WizardStartOptions,
+	WizardStep,
+	WizardTransition,
+	WizardView,
+	PrefixCommandOptions,
+	AnyEventHandler,
+};
@@ -0,0 +1,204 @@
+import { BaseInteraction, MessageFlags } from 'discord.js';
+import { Loggers } from '../services/LoggerManager';
+
+/** Time Discord gives an interaction to be answered, in ms */
+const INTERACTION_DEADLINE = 3000;
+
+/** Delay after which an unanswered interaction is deferred by beforeDeadline, in ms */
+const DEFAULT_DEFER_DELAY = 2500;
+
+/** Methods answering an interaction, after which it's no longer deferred automatically */
+const ACKNOWLEDGING_METHODS = [
+	'reply',
+	'deferReply',
+	'update',
+	'deferUpdate',
+	'showModal',
+] as const;
+
+/**
+ * Interface representing the methods of an interaction patched by an AutoDefer
+ */
+interface DeferrableInteraction {
+	deferred: boolean;
+	replied: boolean;
+	createdTimestamp: number;
+	isMessageComponent(): boolean;
+	reply(options: unknown): Promise<unknown>;
+	editReply(options: unknown): Promise<unknown>;
+	followUp(options: unknown): Promise<unknown>;
+	deleteReply(): Promise<unknown>;
+	deferReply(options?: unknown): Promise<unknown>;
+	update?(options: unknown): Promise<unknown>;
+	deferUpdate?(options?: unknown): Promise<unknown>;
+	showModal?(modal: unknown): Promise<unknown>;
+}
+
+/**
+ * Represents the automatic deferral of a command, so that slow commands don't fail Discord's 3 seconds deadline
+ * Once deferred, the `reply` calls of the command are turned into `editReply` (then `followUp`) and
+ * the `update` calls of components into `editReply`, so commands don't have to care whether they were deferred.
+ * An ephemeral reply after a public deferral replaces the deferred reply with an ephemeral follow-up.
+ * Modals can't be shown once deferred, `showModal` then throws.
+ * Components are deferred with `deferUpdate`, other interactions with `deferReply`.
+ */
+export class AutoDefer {
+	/** Whether the deferred reply is only visible to the user */
+	ephemeral: boolean;
+
+	/** Delay in ms after the interaction was created before deferring it if unanswered, 0 to defer before the command runs */
+	delay: number;
+
+	/**
+	 * Creates a new AutoDefer instance
+	 * @param ephemeral Whether the deferred reply is only visible to the user
+	 * @param delay Delay in ms after the interaction was created before deferring it, 0 to defer before the command runs
+	 */
+	constructor(ephemeral: boolean = false, delay: number = 0) {
+		this.ephemeral = ephemeral;
+		this.delay = Math.min(Math.max(0, delay), INTERACTION_DEADLINE);
+	}
+
+	/**
+	 * Creates an automatic deferral made before the command runs
+	 * @param ephemeral Whether the deferred reply is only visible to the user
+	 * @returns A new AutoDefer instance
+	 */
+	static immediate(ephemeral: boolean = false): AutoDefer {
+		return new AutoDefer(ephemeral, 0);
+	}
+
+	/**
+	 * Creates an automatic deferral made just before the deadline, only if the command hasn't answered yet
+	 * @param ephemeral Whether the deferred reply is only visible to the user
+	 * @param delay Delay in ms after the interaction was created (2.5 seconds by default)
+	 * @returns A new AutoDefer instance
+	 */
+	static beforeDeadline(
+		ephemeral: boolean = false,
+		delay: number = DEFAULT_DEFER_DELAY
+	): AutoDefer {
+		return new AutoDefer(ephemeral, delay);
+	}
+
+	/**
+	 * Arms the deferral of an interaction, run before the command
+	 * Non-repliable interactions (autocomplete) are left untouched.
+	 * @param interaction The interaction about to be handled
+	 * @returns Function to call once the command is over, cancelling a pending deferral
+	 */
+	async arm(interaction: BaseInteraction): Promise<() => void> {
+		if (!interaction.isRepliable()) return () => {};
+		const target = interaction as unknown as DeferrableInteraction;
+		const editReply = target.editReply.bind(target);
+		const followUp = target.followUp.bind(target);
+		const deleteReply = target.deleteReply.bind(target);
+		// Set as soon as the command answers, as deferred and replied are only set once Discord has answered
+		let acknowledged = target.deferred || target.replied;
+		let deferral: Promise<unknown> | undefined;
+		let deferredUpdate = false;
+		let edited = false;
+
+		const defer = async () => {
+			if (acknowledged) return;
+			acknowledged = true;
+			deferredUpdate = target.isMessageComponent() && !!target.deferUpdate;
+			deferral = (
+				deferredUpdate
+					? target.deferUpdate!()
+					: target.deferReply({ ephemeral: this.ephemeral })
+			).catch((e: any) => {
+				Loggers.get().warn(`AutoDefer : Deferral failed: ${e.message}`);
+				// The command answers as if the interaction was never deferred
+				deferral = undefined;
+				acknowledged = false;
+			});
+			await deferral;
+		};
+
+		for (const method of ACKNOWLEDGING_METHODS) {
+			const original = target[method]?.bind(target) as
+				| ((...args: unknown[]) => Promise<unknown>)
+				| undefined;
+			if (!original) continue;
+			target[method] = async (...args: unknown[]) => {
+				if (deferral) await deferral;
+				// Not deferred yet, or the deferral failed
+				if (!deferral) {
+					acknowledged = true;
+					return original(...args);
+				}
+				switch (method) {
+					case 'reply':
+						// A deferred update keeps the component message, replies are sent next to it
+						if (deferredUpdate || edited) return followUp(args[0]);
+						edited = true;
+						// Editing a public deferred reply would show the message to everyone
+						if (!this.ephemeral && AutoDefer.isEphemeral(args[0])) {
+							await deleteReply();
+							return followUp(args[0]);
+						}
+						return editReply(AutoDefer.toEditOptions(args[0]));
+					case 'update':
+						edited = true;
+						return editReply(args[0]);
+					case 'showModal':
+						// Discord rejects modals once an interaction is deferred
+						throw new Error(
+							'A modal cannot be shown once the interaction is deferred, commands opening a modal should use AutoDefer.beforeDeadline'
+						);
+					default:
+						// Already deferred
+						return undefined;
+				}
+			};
+		}
+		target.editReply = (options: unknown) => {
+			edited = true;
+			return editReply(options);
+		};
+
+		if (this.delay === 0) {
+			await defer();
+			return () => {};
+		}
+		const timer = setTimeout(
+			() => void defer(),
+			Math.max(0, target.createdTimestamp + this.delay - Date.now())
+		);
+		timer.unref();
+		return () => clearTimeout(timer);
+	}
+
+	/**
+	 * Checks whether reply options ask for an ephemeral message
+	 * @param options The reply options
+	 * @returns true if the message is only visible to the user
+	 */
+	private static isEphemeral(options: unknown): boolean {
+		if (typeof options !== 'object' || options === null) return false;
+		const { ephemeral, flags } = options as {
+			ephemeral?: boolean;
+			flags?: unknown;
+		};
+		return (
+			ephemeral === true ||
+			(typeof flags === 'number' &&
+				(flags & MessageFlags.Ephemeral) === MessageFlags.Ephemeral)
+		);
+	}
+
+	/**
+	 * Converts reply options to the options of the edit of a deferred reply
+	 * The visibility of the reply was decided by the deferral.
+	 * @param options The reply options
+	 * @returns The edit options
+	 */
+	private static toEditOptions(options: unknown): unknown {
+		if (typeof options !== 'object' || options === null) return options;
+		const editOptions: Record<string, unknown> = { ...options };
+		delete editOptions.ephemeral;
+		delete editOptions.fetchReply;
+		return editOptions;
+	}
+}
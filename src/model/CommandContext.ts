@@ -0,0 +1,46 @@
+import { BaseInteraction, ChannelType } from 'discord.js';
+
+/**
+ * Enum representing where a command can be used
+ * Values match Discord's interaction context types
+ */
+export enum CommandContext {
+	/** In guild channels */
+	GUILD = 0,
+
+	/** In the DM channel between the bot and the user */
+	BOT_DM = 1,
+
+	/** In group DMs and DMs between users, requires the command to be user-installable */
+	PRIVATE_CHANNEL = 2,
+}
+
+/**
+ * Enum representing how the application must be installed for a command to be available
+ * Values match Discord's application integration types
+ */
+export enum CommandIntegrationType {
+	/** Available when the bot is installed in a guild */
+	GUILD_INSTALL = 0,
+
+	/** Available when a user installed the application on their account */
+	USER_INSTALL = 1,
+}
+
+/**
+ * Gets the context an interaction was created in
+ * @param interaction The Discord interaction
+ * @returns The context of the interaction
+ */
+export const getInteractionContext = (
+	interaction: BaseInteraction
+): CommandContext => {
+	if (interaction.guildId) return CommandContext.GUILD;
+
+	const channel = interaction.channel;
+	// In the DM with the bot, the other recipient is the user
+	return channel?.type === ChannelType.DM &&
+		channel.recipientId === interaction.user.id
+		? CommandContext.BOT_DM
+		: CommandContext.PRIVATE_CHANNEL;
+};
@@ -0,0 +1,151 @@
+import {
+	APIApplicationCommandOptionChoice,
+	ApplicationCommandOptionType,
+	ApplicationCommandType,
+	ChannelType,
+	LocalizationMap,
+} from 'discord.js';
+import { CommandContext, CommandIntegrationType } from './CommandContext';
+
+/**
+ * Interface representing a command option as sent to Discord
+ * Produced by CommandList.build() for options, subcommands and subcommand groups
+ */
+export interface CommandOptionDefinition {
+	/**
+	 * Option name (shown to users in Discord)
+	 */
+	name: string;
+
+	/**
+	 * Option description (shown to users in Discord)
+	 */
+	description: string;
+
+	/**
+	 * Option names in each Discord locale
+	 */
+	name_localizations?: LocalizationMap;
+
+	/**
+	 * Option descriptions in each Discord locale
+	 */
+	description_localizations?: LocalizationMap;
+
+	/**
+	 * The type of option (string, subcommand, subcommand group, etc.)
+	 */
+	type: ApplicationCommandOptionType;
+
+	/**
+	 * Whether this option is required
+	 */
+	required?: boolean;
+
+	/**
+	 * Whether this option supports autocomplete
+	 */
+	autocomplete?: boolean;
+
+	/**
+	 * Predefined choices for this option
+	 */
+	choices?: APIApplicationCommandOptionChoice[];
+
+	/**
+	 * Minimum value allowed (integer and number options)
+	 */
+	min_value?: number;
+
+	/**
+	 * Maximum value allowed (integer and number options)
+	 */
+	max_value?: number;
+
+	/**
+	 * Minimum length allowed (string options)
+	 */
+	min_length?: number;
+
+	/**
+	 * Maximum length allowed (string options)
+	 */
+	max_length?: number;
+
+	/**
+	 * Channel types that can be picked (channel options)
+	 */
+	channel_types?: ChannelType[];
+
+	/**
+	 * Nested options, used by subcommands and subcommand groups
+	 */
+	options?: CommandOptionDefinition[];
+}
+
+/**
+ * Interface representing a command definition as sent to Discord
+ * Produced by CommandList.build() for every registered command
+ */
+export interface CommandDefinition {
+	/**
+	 * Command name used for slash commands
+	 */
+	name: string;
+
+	/**
+	 * Type of application command (slash command, user or message context menu)
+	 */
+	type: ApplicationCommandType;
+
+	/**
+	 * Command description shown in Discord, empty for context menu commands
+	 */
+	description: string;
+
+	/**
+	 * Command names in each Discord locale
+	 */
+	name_localizations?: LocalizationMap;
+
+	/**
+	 * Command descriptions in each Discord locale (slash commands only)
+	 */
+	description_localizations?: LocalizationMap;
+
+	/**
+	 * Command options, subcommands or subcommand groups (slash commands only)
+	 */
+	options?: CommandOptionDefinition[];
+
+	/**
+	 * Permission bitfield a member needs to see and use the command, as a string
+	 */
+	default_member_permissions?: string | null;
+
+	/**
+	 * Contexts the command can be used in (global commands only)
+	 */
+	contexts?: CommandContext[] | null;
+
+	/**
+	 * Installation types the command is available for (global commands only)
+	 */
+	integration_types?: CommandIntegrationType[];
+}
+
+/**
+ * Interface representing command definitions grouped by registration scope
+ * Produced by CommandList.buildByScope()
+ */
+export interface ScopedCommandDefinitions {
+	/**
+	 * Commands registered globally
+	 */
+	global: CommandDefinition[];
+
+	/**
+	 * Commands registered in specific guilds, keyed by guild ID
+	 */
+	guilds: Record<string, CommandDefinition[]>;
+}
@@ -0,0 +1,77 @@
+/**
+ * Enum representing where a command is registered
+ */
+export enum CommandScopeType {
+	/** Registered for every guild and DM, updates can take a while to show up */
+	GLOBAL,
+
+	/** Registered only in the listed guilds, updates show up instantly */
+	GUILDS,
+
+	/** Registered only in the development guild set in the bot configuration */
+	DEV,
+}
+
+/**
+ * Represents the registration scope of a command
+ */
+export class CommandScope {
+	/** Type of scope */
+	type: CommandScopeType;
+
+	/** Guild IDs the command is registered in (GUILDS scope only) */
+	guildIds: string[];
+
+	/**
+	 * Creates a new CommandScope instance
+	 * @param type Type of scope
+	 * @param guildIds Guild IDs the command is registered in (GUILDS scope only)
+	 */
+	constructor(type: CommandScopeType, guildIds: string[] = []) {
+		this.type = type;
+		this.guildIds = guildIds;
+	}
+
+	/**
+	 * Creates a global scope
+	 * @returns A new CommandScope instance
+	 */
+	static global(): CommandScope {
+		return new CommandScope(CommandScopeType.GLOBAL);
+	}
+
+	/**
+	 * Creates a scope limited to the given guilds
+	 * @param guildIds Guild IDs the command is registered in
+	 * @returns A new CommandScope instance
+	 */
+	static guilds(...guildIds: string[]): CommandScope {
+		return new CommandScope(CommandScopeType.GUILDS, guildIds);
+	}
+
+	/**
+	 * Creates a scope limited to the development guild (`dev_guild_id` in the configuration)
+	 * @returns A new CommandScope instance
+	 */
+	static dev(): CommandScope {
+		return new CommandScope(CommandScopeType.DEV);
+	}
+
+	/**
+	 * Checks whether the command is available in a guild, as Discord does for registered commands
+	 * @param guildId The guild ID, or null outside of guilds
+	 * @param devGuildId The development guild used by a DEV scope
+	 * @returns True if the command is registered where it is used
+	 */
+	includes(guildId: string | null, devGuildId?: string): boolean {
+		switch (this.type) {
+			case CommandScopeType.GUILDS:
+				return guildId !== null && this.guildIds.includes(guildId);
+			case CommandScopeType.DEV:
+				return guildId !== null && guildId === devGuildId;
+			case CommandScopeType.GLOBAL:
+			default:
+				return true;
+		}
+	}
+}
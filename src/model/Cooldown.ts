@@ -0,0 +1,83 @@
+/**
+ * Enum representing what a cooldown is shared by
+ */
+export enum CooldownBucket {
+	/** Each user has their own cooldown */
+	USER,
+
+	/** Every user of a guild shares the cooldown (per user in DMs) */
+	GUILD,
+
+	/** Every user of a channel shares the cooldown */
+	CHANNEL,
+
+	/** Every user shares a single cooldown */
+	GLOBAL,
+}
+
+/**
+ * Represents the cooldown of a command
+ * A command can be used `burst` times per `duration`, after which it's blocked until the oldest use expires
+ */
+export class Cooldown {
+	/** What the cooldown is shared by */
+	bucket: CooldownBucket;
+
+	/** Duration of the cooldown in ms */
+	duration: number;
+
+	/** Number of uses allowed within the duration */
+	burst: number;
+
+	/**
+	 * Creates a new Cooldown instance
+	 * @param bucket What the cooldown is shared by
+	 * @param duration Duration of the cooldown in ms
+	 * @param burst Number of uses allowed within the duration (1 by default)
+	 */
+	constructor(bucket: CooldownBucket, duration: number, burst: number = 1) {
+		this.bucket = bucket;
+		this.duration = duration;
+		this.burst = Math.max(1, Math.floor(burst));
+	}
+
+	/**
+	 * Creates a cooldown applied to each user
+	 * @param duration Duration of the cooldown in ms
+	 * @param burst Number of uses allowed within the duration
+	 * @returns A new Cooldown instance
+	 */
+	static perUser(duration: number, burst?: number): Cooldown {
+		return new Cooldown(CooldownBucket.USER, duration, burst);
+	}
+
+	/**
+	 * Creates a cooldown shared by every user of a guild
+	 * @param duration Duration of the cooldown in ms
+	 * @param burst Number of uses allowed within the duration
+	 * @returns A new Cooldown instance
+	 */
+	static perGuild(duration: number, burst?: number): Cooldown {
+		return new Cooldown(CooldownBucket.GUILD, duration, burst);
+	}
+
+	/**
+	 * Creates a cooldown shared by every user of a channel
+	 * @param duration Duration of the cooldown in ms
+	 * @param burst Number of uses allowed within the duration
+	 * @returns A new Cooldown instance
+	 */
+	static perChannel(duration: number, burst?: number): Cooldown {
+		return new Cooldown(CooldownBucket.CHANNEL, duration, burst);
+	}
+
+	/**
+	 * Creates a cooldown shared by every user
+	 * @param duration Duration of the cooldown in ms
+	 * @param burst Number of uses allowed within the duration
+	 * @returns A new Cooldown instance
+	 */
+	static global(duration: number, burst?: number): Cooldown {
+		return new Cooldown(CooldownBucket.GLOBAL, duration, burst);
+	}
+}
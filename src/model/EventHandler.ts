@@ -0,0 +1,50 @@
+import { Client, ClientEvents } from 'discord.js';
+
+/**
+ * Handler of a gateway event (guildMemberAdd, messageReactionAdd, voiceStateUpdate, etc.)
+ * Registered next to the CommandList, it gets the injected service and its errors are caught and logged
+ * @template T Type of the service injected into handlers
+ * @template K Name of the handled event
+ */
+export class EventHandler<
+	T,
+	K extends keyof ClientEvents = keyof ClientEvents,
+> {
+	/** Name of the handled event, e.g. Events.GuildMemberAdd */
+	event: K;
+
+	/** Whether the handler only runs for the first occurrence of the event */
+	once: boolean;
+
+	/**
+	 * Function to execute when the event is emitted
+	 * @param args The arguments of the event, e.g. `[member]` for guildMemberAdd
+	 * @param client The Discord client
+	 * @param service The service instance
+	 */
+	execute: (args: ClientEvents[K], client: Client, service: T) => Promise<void>;
+
+	/**
+	 * Creates a new EventHandler instance
+	 * @param init Optional partial initialization object
+	 */
+	constructor(init?: Partial<EventHandler<T, K>>) {
+		// Default values
+		this.event = '' as K;
+		this.once = false;
+		this.execute = async () => {}; // Empty default implementation
+
+		// Apply provided values
+		if (init) {
+			Object.assign(this, init);
+		}
+	}
+}
+
+/**
+ * Handler of any gateway event
+ * @template T Type of the service injected into handlers
+ */
+export type AnyEventHandler<T> = {
+	[K in keyof ClientEvents]: EventHandler<T, K>;
+}[keyof ClientEvents];
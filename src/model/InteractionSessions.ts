@@ -0,0 +1,140 @@
+import { randomBytes } from 'crypto';
+import { InteractionEditReplyOptions, RepliableInteraction } from 'discord.js';
+import { Loggers } from '../services/LoggerManager';
+
+/**
+ * Interface representing a message whose components are used by a user until it times out
+ */
+export interface InteractionSession {
+	/** ID of the session, carried by the customIds of its components */
+	id: string;
+
+	/** ID of the user allowed to use the components */
+	userId: string;
+
+	/** Last interaction that updated the message, used to close it on timeout */
+	interaction: RepliableInteraction;
+}
+
+/**
+ * Interface representing the options of an InteractionSessions instance
+ * @template S Type of the sessions
+ */
+export interface InteractionSessionsOptions<S extends InteractionSession> {
+	/** Name of the owner of the sessions, used in logs */
+	name: string;
+
+	/** Gets the inactivity delay in ms after which a session ends */
+	timeout: () => number;
+
+	/** Builds the edit closing the message of a session that timed out */
+	close: (session: S) => InteractionEditReplyOptions;
+
+	/** Called when a session ends, whether it timed out or not */
+	onEnd?: (session: S) => void;
+}
+
+/**
+ * Sessions of messages with components, ended and closed after inactivity
+ * @template S Type of the sessions
+ */
+export class InteractionSessions<S extends InteractionSession> {
+	/** Sessions in progress with their inactivity timer, keyed by session ID */
+	private sessions: Map<string, { session: S; timer: NodeJS.Timeout }> =
+		new Map();
+
+	/** Options of the sessions */
+	private options: InteractionSessionsOptions<S>;
+
+	/**
+	 * Creates a new InteractionSessions instance
+	 * @param options Options of the sessions
+	 */
+	constructor(options: InteractionSessionsOptions<S>) {
+		this.options = options;
+	}
+
+	/**
+	 * Starts a session with a new ID
+	 * @param init The session, without its ID
+	 * @returns The session
+	 */
+	create(init: Omit<S, 'id'>): S {
+		const session = {
+			...init,
+			id: randomBytes(6).toString('base64url'),
+		} as S;
+		this.sessions.set(session.id, {
+			session,
+			timer: this.startTimer(session.id),
+		});
+		return session;
+	}
+
+	/**
+	 * Gets a session in progress
+	 * @param sessionId The session ID
+	 * @returns The session, or undefined if it has ended
+	 */
+	get(sessionId: string): S | undefined {
+		return this.sessions.get(sessionId)?.session;
+	}
+
+	/**
+	 * Restarts the inactivity timer of a session
+	 * @param sessionId The session ID
+	 */
+	touch(sessionId: string): void {
+		const entry = this.sessions.get(sessionId);
+		if (!entry) return;
+		clearTimeout(entry.timer);
+		entry.timer = this.startTimer(sessionId);
+	}
+
+	/**
+	 * Ends a session, leaving its message as is
+	 * @param sessionId The session ID
+	 * @returns The session, or undefined if it had already ended
+	 */
+	end(sessionId: string): S | undefined {
+		const entry = this.sessions.get(sessionId);
+		if (!entry) return undefined;
+		clearTimeout(entry.timer);
+		this.sessions.delete(sessionId);
+		this.options.onEnd?.(entry.session);
+		return entry.session;
+	}
+
+	/**
+	 * Starts the inactivity timer of a session
+	 * @param sessionId The session ID
+	 * @returns The timer
+	 */
+	private startTimer(sessionId: string): NodeJS.Timeout {
+		const timer = setTimeout(
+			() => void this.expire(sessionId),
+			this.options.timeout()
+		);
+		// Don't keep the process alive only to close a message
+		timer.unref();
+		return timer;
+	}
+
+	/**
+	 * Ends a session after inactivity and closes its message
+	 * @param sessionId The session ID
+	 */
+	private async expire(sessionId: string): Promise<void> {
+		const session = this.end(sessionId);
+		if (!session) return;
+
+		try {
+			await session.interaction.editReply(this.options.close(session));
+		} catch (e: any) {
+			// The message may have been deleted or the interaction token expired
+			Loggers.get().warn(
+				`${this.options.name} : could not close session ${sessionId}: ${e.message}`
+			);
+		}
+	}
+}
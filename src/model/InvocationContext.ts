@@ -0,0 +1,32 @@
+import { Replacements } from 'i18n';
+
+/**
+ * Interface representing the context of a single command invocation
+ * Created by CommandList for every execution and passed to the command's execute
+ * @template A Type of the arguments resolved from the command options
+ */
+export interface InvocationContext<A = Record<string, unknown>> {
+	/**
+	 * Arguments resolved from the command options, keyed by option name
+	 * Empty for interactions that don't carry options (buttons, modals, etc.)
+	 */
+	args: A;
+
+	/**
+	 * Values shared between middlewares and the command for this invocation only
+	 */
+	state: Record<string, unknown>;
+
+	/**
+	 * Locale resolved for this interaction (user, guild, override or default locale)
+	 */
+	locale: string;
+
+	/**
+	 * Translates a key in the locale resolved for this interaction
+	 * @param i18nKey The key to look up in the localization files
+	 * @param i18nArgs Optional replacement arguments for the localized message
+	 * @returns The localized message
+	 */
+	t: (i18nKey: string, i18nArgs?: Replacements) => string;
+}
@@ -0,0 +1,23 @@
+import { Client } from 'discord.js';
+
+/**
+ * Optional lifecycle hooks, called by SimpleDiscordBot on the injected service when it implements them
+ * Errors thrown by a hook are logged without interrupting the bot
+ */
+export interface LifecycleHooks {
+	/**
+	 * Called once the client is ready, before the scheduled jobs start
+	 * @param client The Discord client
+	 */
+	onReady?(client: Client<true>): Promise<void> | void;
+
+	/**
+	 * Called when the bot starts stopping, before waiting for the commands and jobs in progress
+	 */
+	onBeforeStop?(): Promise<void> | void;
+
+	/**
+	 * Called once the client is destroyed, before the loggers are closed
+	 */
+	onStopped?(): Promise<void> | void;
+}
@@ -5,6 +5,12 @@ import i18n, { Replacements, I18n } from 'i18n';
  * Extends the standard Error class to provide internationalization support
  */
 export class LocaleError extends Error {
+	/** The key looked up in the localization files */
+	readonly i18nKey: string;
+
+	/** Replacement arguments of the localized message */
+	readonly i18nArgs?: Replacements;
+
 	/**
 	 * Creates a new LocaleError instance
 	 * @param i18nKey The key to look up in the localization files
@@ -15,18 +21,38 @@ export class LocaleError extends Error {
 		let message: string;
 		const translator = i18nInstance || i18n;
 
-		if (i18nArgs) {
-			message = translator.__(i18nKey, i18nArgs);
-		} else {
-			message = translator.__(i18nKey);
+		try {
+			if (i18nArgs) {
+				message = translator.__(i18nKey, i18nArgs);
+			} else {
+				message = translator.__(i18nKey);
+			}
+		} catch {
+			// The global instance can't translate until configured, translate() localizes the key later
+			message = i18nKey;
 		}
 		super(message);
+		this.i18nKey = i18nKey;
+		this.i18nArgs = i18nArgs;
 		Object.setPrototypeOf(this, LocaleError.prototype);
 		if (Error.captureStackTrace) {
 			Error.captureStackTrace(this, this.constructor);
 		}
 	}
 
+	/**
+	 * Translates the error message in a given locale, e.g. the one resolved for an interaction
+	 * @param i18nInstance The i18n instance to use for localization
+	 * @param locale The locale to translate the message in
+	 * @returns The localized message
+	 */
+	translate(i18nInstance: I18n, locale: string): string {
+		return i18nInstance.__(
+			{ phrase: this.i18nKey, locale },
+			this.i18nArgs ?? {}
+		);
+	}
+
 	/**
 	 * Creates a new LocaleError instance with a custom i18n instance
 	 * @param i18nKey The key to look up in the localization files
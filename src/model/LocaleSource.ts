@@ -0,0 +1,17 @@
+/**
+ * Enum representing where the locale of an interaction can come from
+ * Sources are tried in the order of the `locale_chain` configuration
+ */
+export enum LocaleSource {
+	/** Language of the user's Discord client */
+	USER,
+
+	/** Preferred locale of the guild (community guilds) */
+	GUILD,
+
+	/** Locale set for the guild by the `guild_locale` configuration callback */
+	GUILD_OVERRIDE,
+
+	/** Locale of the bot configuration */
+	DEFAULT,
+}
@@ -0,0 +1,62 @@
+import { Client } from 'discord.js';
+import { Replacements } from 'i18n';
+import { InvocationContext } from './InvocationContext';
+import { AnyCommandInteraction, Command } from './SimpleDiscordModels';
+
+/**
+ * Interface representing what a middleware sees of a command invocation
+ * @template T Type of the service injected into commands
+ */
+export interface MiddlewareContext<T> {
+	/**
+	 * The Discord interaction being handled
+	 */
+	interaction: AnyCommandInteraction;
+
+	/**
+	 * The Discord client
+	 */
+	client: Client;
+
+	/**
+	 * The resolved command, the subcommand itself for commands split into subcommands
+	 */
+	command: Command<T, AnyCommandInteraction>;
+
+	/**
+	 * Full name of the resolved command (e.g. `bet create`), handy for logs and metrics
+	 */
+	commandName: string;
+
+	/**
+	 * The service instance
+	 */
+	service: T;
+
+	/**
+	 * Extra information decoded from the customId
+	 */
+	extraInfo: any;
+
+	/**
+	 * Per-invocation context passed to the command's execute, middlewares can enrich its state
+	 */
+	context: InvocationContext;
+
+	/**
+	 * Replies with a localized ephemeral message, to use when not calling next()
+	 * @param i18nKey The key to look up in the localization files
+	 * @param i18nArgs Optional replacement arguments for the localized message
+	 */
+	deny: (i18nKey: string, i18nArgs?: Replacements) => Promise<void>;
+}
+
+/**
+ * Function run around the execution of a command
+ * Call next() to continue the chain, or don't to short-circuit it
+ * @template T Type of the service injected into commands
+ */
+export type Middleware<T> = (
+	context: MiddlewareContext<T>,
+	next: () => Promise<void>
+) => Promise<void>;
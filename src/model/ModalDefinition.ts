@@ -0,0 +1,268 @@
+import {
+	ActionRowBuilder,
+	ModalBuilder,
+	ModalSubmitFields,
+	TextInputBuilder,
+	TextInputStyle,
+} from 'discord.js';
+import { Replacements } from 'i18n';
+
+/** Maximum number of fields Discord allows in a modal */
+const MODAL_MAX_FIELDS = 5;
+
+/**
+ * Translates an i18n key, e.g. the `t` of an invocation context
+ */
+export type Translator = (i18nKey: string, i18nArgs?: Replacements) => string;
+
+/**
+ * Validates the submitted value of a field
+ * @param value The submitted value, never empty
+ * @returns The i18n key of the error message, or undefined if the value is valid
+ */
+export type ModalFieldValidator = (value: string) => string | undefined;
+
+/**
+ * Options of a modal field
+ */
+export interface ModalFieldOptions<R extends boolean> {
+	/** Whether the field must be filled (true by default) */
+	required?: R;
+
+	/** Minimum length of the value */
+	min_length?: number;
+
+	/** Maximum length of the value */
+	max_length?: number;
+
+	/** i18n key of the placeholder shown when the field is empty */
+	placeholder?: string;
+
+	/** Value the field is pre-filled with */
+	value?: string;
+
+	/** Validators run on the submitted value, in order */
+	validators?: ModalFieldValidator[];
+}
+
+/**
+ * Text field of a modal
+ * @template N Name of the field, used as its customId and as key of the parsed values
+ * @template R Whether the field is required
+ */
+export class ModalField<
+	N extends string = string,
+	R extends boolean = boolean,
+> {
+	/** Name of the field, used as its customId and as key of the parsed values */
+	name: N;
+
+	/** i18n key of the label shown above the field */
+	label: string;
+
+	/** Style of the field (single line or paragraph) */
+	style: TextInputStyle;
+
+	/** Whether the field must be filled */
+	required: R;
+
+	/** Minimum length of the value */
+	min_length?: number;
+
+	/** Maximum length of the value */
+	max_length?: number;
+
+	/** i18n key of the placeholder shown when the field is empty */
+	placeholder?: string;
+
+	/** Value the field is pre-filled with */
+	value?: string;
+
+	/** Validators run on the submitted value, in order */
+	validators: ModalFieldValidator[];
+
+	/**
+	 * Creates a new ModalField instance
+	 * @param name Name of the field
+	 * @param label i18n key of the label
+	 * @param style Style of the field
+	 * @param options Optional field options
+	 */
+	constructor(
+		name: N,
+		label: string,
+		style: TextInputStyle,
+		options: ModalFieldOptions<R> = {}
+	) {
+		this.name = name;
+		this.label = label;
+		this.style = style;
+		this.required = options.required ?? (true as R);
+		this.min_length = options.min_length;
+		this.max_length = options.max_length;
+		this.placeholder = options.placeholder;
+		this.value = options.value;
+		this.validators = options.validators ?? [];
+	}
+
+	/**
+	 * Creates a single line field
+	 * @param name Name of the field
+	 * @param label i18n key of the label
+	 * @param options Optional field options
+	 * @returns A new ModalField instance
+	 */
+	static short<const N extends string, R extends boolean = true>(
+		name: N,
+		label: string,
+		options?: ModalFieldOptions<R>
+	): ModalField<N, NoInfer<R>> {
+		return new ModalField(name, label, TextInputStyle.Short, options);
+	}
+
+	/**
+	 * Creates a multi-line field
+	 * @param name Name of the field
+	 * @param label i18n key of the label
+	 * @param options Optional field options
+	 * @returns A new ModalField instance
+	 */
+	static paragraph<const N extends string, R extends boolean = true>(
+		name: N,
+		label: string,
+		options?: ModalFieldOptions<R>
+	): ModalField<N, NoInfer<R>> {
+		return new ModalField(name, label, TextInputStyle.Paragraph, options);
+	}
+
+	/**
+	 * Validates a submitted value
+	 * @param value The submitted value, empty if the field was left empty
+	 * @param t Translator used for the error message
+	 * @returns The localized error message, or undefined if the value is valid
+	 */
+	validate(value: string, t: Translator): string | undefined {
+		const field = t(this.label);
+		if (!value)
+			return this.required ? t('error.modal.required', { field }) : undefined;
+		if (this.min_length !== undefined && value.length < this.min_length)
+			return t('error.modal.too_short', {
+				field,
+				min: `${this.min_length}`,
+			});
+		if (this.max_length !== undefined && value.length > this.max_length)
+			return t('error.modal.too_long', { field, max: `${this.max_length}` });
+
+		for (const validator of this.validators) {
+			const error = validator(value);
+			if (error) return t(error, { field });
+		}
+		return undefined;
+	}
+
+	/**
+	 * Builds the text input of this field
+	 * @param t Translator used for the label and placeholder
+	 * @returns The text input
+	 */
+	build(t: Translator): TextInputBuilder {
+		const input = new TextInputBuilder()
+			.setCustomId(this.name)
+			.setLabel(t(this.label))
+			.setStyle(this.style)
+			.setRequired(this.required);
+		if (this.min_length !== undefined) input.setMinLength(this.min_length);
+		if (this.max_length !== undefined) input.setMaxLength(this.max_length);
+		if (this.placeholder) input.setPlaceholder(t(this.placeholder));
+		if (this.value) input.setValue(this.value);
+		return input;
+	}
+}
+
+/** Any modal field, whatever its name and required flag */
+export type AnyModalField = ModalField<string, boolean>;
+
+/**
+ * Values parsed from a modal submission, keyed by field name
+ * Optional fields left empty are null
+ */
+export type ModalValues<F extends readonly AnyModalField[]> = {
+	[K in F[number] as K['name']]: K extends ModalField<string, true>
+		? string
+		: string | null;
+};
+
+/**
+ * Result of the parsing of a modal submission
+ */
+export interface ModalParseResult<F extends readonly AnyModalField[]> {
+	/** Parsed values, only complete when there is no error */
+	values: ModalValues<F>;
+
+	/** Localized error messages, empty when the submission is valid */
+	errors: string[];
+}
+
+/**
+ * Modal declared once, used both to build the modal to show and to parse its submission
+ * @template F Type of the fields, used to infer the type of the parsed values
+ */
+export class ModalDefinition<
+	const F extends readonly AnyModalField[] = AnyModalField[],
+> {
+	/** i18n key of the modal title */
+	title: string;
+
+	/** Fields of the modal, in display order */
+	fields: F;
+
+	/**
+	 * Creates a new ModalDefinition instance
+	 * @param title i18n key of the modal title
+	 * @param fields Fields of the modal, 5 at most
+	 * @throws Error if the modal has more fields than Discord allows
+	 */
+	constructor(title: string, fields: F) {
+		if (fields.length > MODAL_MAX_FIELDS)
+			throw new Error(
+				`A modal can't have more than ${MODAL_MAX_FIELDS} fields, got ${fields.length}`
+			);
+		this.title = title;
+		this.fields = fields;
+	}
+
+	/**
+	 * Builds the modal to show
+	 * @param customId The customId routing the submission to its command
+	 * @param t Translator used for the title, labels and placeholders
+	 * @returns The modal
+	 */
+	build(customId: string, t: Translator): ModalBuilder {
+		return new ModalBuilder()
+			.setCustomId(customId)
+			.setTitle(t(this.title))
+			.addComponents(
+				this.fields.map((field) =>
+					new ActionRowBuilder<TextInputBuilder>().addComponents(field.build(t))
+				)
+			);
+	}
+
+	/**
+	 * Parses and validates a modal submission
+	 * @param fields The submitted fields
+	 * @param t Translator used for the error messages
+	 * @returns The parsed values and the validation errors
+	 */
+	parse(fields: ModalSubmitFields, t: Translator): ModalParseResult<F> {
+		const values: Record<string, string | null> = {};
+		const errors: string[] = [];
+		for (const field of this.fields) {
+			const value = fields.fields.get(field.name)?.value.trim() ?? '';
+			const error = field.validate(value, t);
+			if (error) errors.push(error);
+			values[field.name] = value || null;
+		}
+		return { values: values as ModalValues<F>, errors };
+	}
+}
@@ -0,0 +1,242 @@
+import {
+	ActionRowBuilder,
+	APIEmbed,
+	ButtonBuilder,
+	ButtonInteraction,
+	ButtonStyle,
+	CacheType,
+	EmbedBuilder,
+	RepliableInteraction,
+} from 'discord.js';
+import { ButtonCommand } from './SimpleDiscordModels';
+import { InvocationContext } from './InvocationContext';
+import { InteractionSession, InteractionSessions } from './InteractionSessions';
+import { PayloadOf } from '../utils/CustomIdCodec';
+
+/** Schema of the payload carried by the paginator buttons */
+const PAGINATOR_SCHEMA = { session: 'string', action: 'string' } as const;
+
+/**
+ * A single page, either a message content or an embed
+ */
+export type PaginatorPage = string | EmbedBuilder | APIEmbed;
+
+/**
+ * Pages shown by a paginator, either all of them or a function fetching them on demand
+ */
+export type PaginatorPages =
+	| PaginatorPage[]
+	| {
+			/** Total number of pages */
+			pageCount: number;
+
+			/**
+			 * Fetches a page
+			 * @param index Index of the page, starting at 0
+			 * @returns The page
+			 */
+			fetch: (index: number) => PaginatorPage | Promise<PaginatorPage>;
+	  };
+
+/**
+ * Options of a paginated reply
+ */
+export interface PaginatorReplyOptions {
+	/**
+	 * Index of the page shown first (0 by default)
+	 */
+	startPage?: number;
+
+	/**
+	 * Whether the reply is only visible to the invoking user
+	 */
+	ephemeral?: boolean;
+}
+
+/**
+ * Interface representing a paginated message being browsed
+ */
+interface PaginatorSession extends InteractionSession {
+	/** Total number of pages */
+	pageCount: number;
+
+	/** Index of the page currently shown */
+	page: number;
+
+	/** Fetches a page */
+	fetch: (index: number) => PaginatorPage | Promise<PaginatorPage>;
+}
+
+/**
+ * Button command sending paginated messages with first/previous/next/last buttons
+ * Push it to the CommandList so that its buttons are routed to it, then use reply() in commands
+ * @template T Type of the service injected into commands
+ */
+export class Paginator<T> extends ButtonCommand<T, typeof PAGINATOR_SCHEMA> {
+	/** Inactivity delay in ms after which the buttons are disabled */
+	timeout: number;
+
+	/** Paginated messages being browsed, their buttons are disabled on timeout */
+	private sessions = new InteractionSessions<PaginatorSession>({
+		name: 'Paginator',
+		timeout: () => this.timeout,
+		close: (session) => ({ components: [this.buildButtons(session, true)] }),
+	});
+
+	/**
+	 * Creates a new Paginator instance
+	 * @param init Optional partial initialization object, use a different name to run several paginators
+	 */
+	constructor(init?: Partial<Paginator<T>>) {
+		super({
+			name: 'button_paginator',
+			...init,
+		});
+		this.timeout = init?.timeout ?? 5 * 60000;
+		this.payloadSchema = PAGINATOR_SCHEMA;
+		this.execute = this.navigate;
+	}
+
+	/**
+	 * Replies to an interaction with a paginated message
+	 * Only the user of the interaction can browse the pages
+	 * @param interaction The interaction to reply to, answered with editReply if deferred
+	 * @param pages The pages to show
+	 * @param options Optional reply options
+	 */
+	async reply(
+		interaction: RepliableInteraction,
+		pages: PaginatorPages,
+		options: PaginatorReplyOptions = {}
+	): Promise<void> {
+		const { pageCount, fetch } = Array.isArray(pages)
+			? { pageCount: pages.length, fetch: (index: number) => pages[index]! }
+			: pages;
+		if (pageCount === 0) throw new Error('A paginator needs at least one page');
+
+		const page = Math.min(Math.max(options.startPage ?? 0, 0), pageCount - 1);
+		const session = this.sessions.create({
+			userId: interaction.user.id,
+			pageCount,
+			page,
+			fetch,
+			interaction,
+		});
+
+		const message = await this.render(session);
+		if (interaction.deferred || interaction.replied) {
+			await interaction.editReply(message);
+		} else {
+			await interaction.reply({ ...message, ephemeral: options.ephemeral });
+		}
+	}
+
+	/**
+	 * Handles a click on one of the paginator buttons
+	 * @param interaction The button interaction
+	 * @param _client The Discord client
+	 * @param _service The service instance
+	 * @param payload The session and action carried by the button
+	 * @param _modalPayload Unused
+	 * @param context The invocation context, used to localize replies
+	 */
+	private navigate = async (
+		interaction: ButtonInteraction<CacheType>,
+		_client: unknown,
+		_service: T,
+		payload: PayloadOf<typeof PAGINATOR_SCHEMA>,
+		_modalPayload: unknown,
+		context: InvocationContext
+	): Promise<void> => {
+		const session = this.sessions.get(payload.session);
+		if (!session) {
+			await interaction.reply({
+				content: context.t('error.discord.interaction_expired'),
+				ephemeral: true,
+			});
+			return;
+		}
+		if (interaction.user.id !== session.userId) {
+			await interaction.reply({
+				content: context.t('error.discord.paginator_not_owner'),
+				ephemeral: true,
+			});
+			return;
+		}
+
+		session.page = this.getTargetPage(session, payload.action);
+		// The token of the original reply expires, the last click is used to disable the buttons
+		session.interaction = interaction;
+		this.sessions.touch(session.id);
+		await interaction.update(await this.render(session));
+	};
+
+	/**
+	 * Gets the page a button leads to
+	 * @param session The paginator session
+	 * @param action The action of the button
+	 * @returns The index of the page to show
+	 */
+	private getTargetPage(session: PaginatorSession, action: string): number {
+		switch (action) {
+			case 'first':
+				return 0;
+			case 'prev':
+				return Math.max(session.page - 1, 0);
+			case 'next':
+				return Math.min(session.page + 1, session.pageCount - 1);
+			case 'last':
+				return session.pageCount - 1;
+			default:
+				return session.page;
+		}
+	}
+
+	/**
+	 * Renders the current page of a session with its buttons
+	 * @param session The paginator session
+	 * @returns The message content, embeds and buttons
+	 */
+	private async render(session: PaginatorSession): Promise<{
+		content: string;
+		embeds: (EmbedBuilder | APIEmbed)[];
+		components: ActionRowBuilder<ButtonBuilder>[];
+	}> {
+		const page = await session.fetch(session.page);
+		const isContent = typeof page === 'string';
+		return {
+			// An empty content clears the text of a previous page when editing
+			content: isContent ? page : '',
+			embeds: isContent ? [] : [page],
+			components: [this.buildButtons(session, false)],
+		};
+	}
+
+	/**
+	 * Builds the row of paginator buttons
+	 * @param session The paginator session
+	 * @param disabled Whether every button is disabled (once the session has ended)
+	 * @returns The row of buttons
+	 */
+	private buildButtons(
+		session: PaginatorSession,
+		disabled: boolean
+	): ActionRowBuilder<ButtonBuilder> {
+		const isFirst = session.page === 0;
+		const isLast = session.page === session.pageCount - 1;
+		const button = (action: string, label: string, inactive: boolean) =>
+			new ButtonBuilder()
+				.setCustomId(this.buildCustomId({ session: session.id, action }))
+				.setLabel(label)
+				.setStyle(ButtonStyle.Secondary)
+				.setDisabled(disabled || inactive);
+
+		return new ActionRowBuilder<ButtonBuilder>().addComponents(
+			button('first', '⏮', isFirst),
+			button('prev', '◀', isFirst),
+			button('page', `${session.page + 1} / ${session.pageCount}`, true),
+			button('next', '▶', isLast),
+			button('last', '⏭', isLast)
+		);
+	}
+}
@@ -0,0 +1,320 @@
+import {
+	ApplicationCommandType,
+	Client,
+	CommandInteractionOption,
+	CommandInteractionOptionResolver,
+	InteractionEditReplyOptions,
+	InteractionReplyOptions,
+	InteractionType,
+	Message,
+	MessageCreateOptions,
+	MessagePayload,
+} from 'discord.js';
+import { I18n } from 'i18n';
+import { LocaleError } from './LocaleError';
+
+/**
+ * Reply options accepted by the adapter, as for an interaction
+ */
+type ReplyOptions =
+	| string
+	| MessagePayload
+	| InteractionReplyOptions
+	| InteractionEditReplyOptions;
+
+/**
+ * Constructor of the option resolver, private in the typings
+ */
+type OptionResolverConstructor = new (
+	client: Client,
+	options: CommandInteractionOption[],
+	resolved: object
+) => CommandInteractionOptionResolver;
+
+/**
+ * Creates the option resolver Discord.js uses for slash commands
+ * @param client The Discord client
+ * @param options The command options
+ * @returns The option resolver
+ */
+const createOptionResolver = (
+	client: Client,
+	options: CommandInteractionOption[]
+): CommandInteractionOptionResolver =>
+	new (CommandInteractionOptionResolver as unknown as OptionResolverConstructor)(
+		client,
+		options,
+		{}
+	);
+
+/**
+ * Adapter running a prefix (message-based) command as a chat input interaction
+ * It mimics the parts of ChatInputCommandInteraction used by commands: options, reply, deferReply,
+ * editReply, followUp, deleteReply and fetchReply. Replies are sent as replies to the message,
+ * ephemeral replies can't exist for messages and are sent publicly.
+ */
+export class PrefixCommandInteraction {
+	/** The message that triggered the command */
+	readonly message: Message;
+
+	/** Name of the executed command */
+	readonly commandName: string;
+
+	/** Options parsed from the message, resolved like those of a slash command */
+	readonly options: CommandInteractionOptionResolver;
+
+	/** Type of the interaction mimicked by the adapter */
+	readonly type = InteractionType.ApplicationCommand;
+
+	/** Type of the command mimicked by the adapter */
+	readonly commandType = ApplicationCommandType.ChatInput;
+
+	/** Whether the reply has been deferred */
+	deferred: boolean = false;
+
+	/** Whether the command has replied */
+	replied: boolean = false;
+
+	/** Always false, messages can't have ephemeral replies */
+	readonly ephemeral = false;
+
+	/** Reply sent to the message, edited by editReply */
+	private response?: Message;
+
+	/** i18n instance used for the error messages */
+	private i18nInstance?: I18n;
+
+	/**
+	 * Creates a new PrefixCommandInteraction instance
+	 * @param message The message that triggered the command
+	 * @param commandName Name of the executed command
+	 * @param options Options parsed from the message
+	 * @param i18nInstance Optional i18n instance used for the error messages (uses global instance if not provided)
+	 */
+	constructor(
+		message: Message,
+		commandName: string,
+		options: CommandInteractionOption[],
+		i18nInstance?: I18n
+	) {
+		this.message = message;
+		this.commandName = commandName;
+		this.i18nInstance = i18nInstance;
+		this.options = createOptionResolver(message.client, options);
+	}
+
+	/** ID of the message, used as the interaction ID */
+	get id() {
+		return this.message.id;
+	}
+
+	/** The Discord client */
+	get client() {
+		return this.message.client;
+	}
+
+	/** The user who sent the message */
+	get user() {
+		return this.message.author;
+	}
+
+	/** The member who sent the message, null outside of guilds */
+	get member() {
+		return this.message.member;
+	}
+
+	/** Permissions of the member, null outside of guilds */
+	get memberPermissions() {
+		return this.message.member?.permissions ?? null;
+	}
+
+	/** The guild of the message, null outside of guilds */
+	get guild() {
+		return this.message.guild;
+	}
+
+	/** ID of the guild of the message, null outside of guilds */
+	get guildId() {
+		return this.message.guildId;
+	}
+
+	/** The channel of the message */
+	get channel() {
+		return this.message.channel;
+	}
+
+	/** ID of the channel of the message */
+	get channelId() {
+		return this.message.channelId;
+	}
+
+	/** Messages don't carry the locale of their author */
+	get locale(): string | undefined {
+		return undefined;
+	}
+
+	/** Preferred locale of the guild of the message, null outside of guilds */
+	get guildLocale() {
+		return this.message.guild?.preferredLocale ?? null;
+	}
+
+	/** Creation time of the message */
+	get createdTimestamp() {
+		return this.message.createdTimestamp;
+	}
+
+	/**
+	 * Checks whether the message was sent in a guild
+	 * @returns true if the message was sent in a guild
+	 */
+	inGuild(): boolean {
+		return this.message.inGuild();
+	}
+
+	/**
+	 * Checks whether the message was sent in a cached guild
+	 * @returns true if the guild of the message is cached
+	 */
+	inCachedGuild(): boolean {
+		return this.message.inGuild() && !!this.message.guild;
+	}
+
+	/** @returns true, prefix commands are run as chat input commands */
+	isChatInputCommand(): boolean {
+		return true;
+	}
+
+	/** @returns true, prefix commands are run as chat input commands */
+	isCommand(): boolean {
+		return true;
+	}
+
+	/** @returns true, the message can be replied to */
+	isRepliable(): boolean {
+		return true;
+	}
+
+	/** @returns false */
+	isAutocomplete(): boolean {
+		return false;
+	}
+
+	/** @returns false */
+	isContextMenuCommand(): boolean {
+		return false;
+	}
+
+	/** @returns false */
+	isMessageComponent(): boolean {
+		return false;
+	}
+
+	/** @returns false */
+	isButton(): boolean {
+		return false;
+	}
+
+	/** @returns false */
+	isAnySelectMenu(): boolean {
+		return false;
+	}
+
+	/** @returns false */
+	isModalSubmit(): boolean {
+		return false;
+	}
+
+	/**
+	 * Shows the typing indicator until the reply is sent with editReply
+	 */
+	async deferReply(): Promise<void> {
+		if (this.deferred || this.replied) return;
+		this.deferred = true;
+		if ('sendTyping' in this.message.channel)
+			await this.message.channel.sendTyping();
+	}
+
+	/**
+	 * Replies to the message
+	 * @param options The reply content or options
+	 * @returns The reply message
+	 */
+	async reply(options: ReplyOptions): Promise<Message> {
+		this.response = await this.message.reply(this.toMessageOptions(options));
+		this.replied = true;
+		return this.response;
+	}
+
+	/**
+	 * Edits the reply, or sends it if the reply was only deferred
+	 * @param options The reply content or options
+	 * @returns The reply message
+	 */
+	async editReply(options: ReplyOptions): Promise<Message> {
+		if (!this.response) return this.reply(options);
+		this.response = await this.response.edit(this.toMessageOptions(options));
+		return this.response;
+	}
+
+	/**
+	 * Sends another reply to the message
+	 * @param options The reply content or options
+	 * @returns The sent message
+	 */
+	async followUp(options: ReplyOptions): Promise<Message> {
+		if (!this.response) return this.reply(options);
+		return this.message.reply(this.toMessageOptions(options));
+	}
+
+	/**
+	 * Gets the reply
+	 * @returns The reply message
+	 * @throws LocaleError if the command hasn't replied yet
+	 */
+	async fetchReply(): Promise<Message> {
+		if (!this.response)
+			throw new LocaleError(
+				'error.discord.no_interaction',
+				undefined,
+				this.i18nInstance
+			);
+		return this.response;
+	}
+
+	/**
+	 * Deletes the reply
+	 */
+	async deleteReply(): Promise<void> {
+		await this.response?.delete();
+		this.response = undefined;
+	}
+
+	/**
+	 * Modals can't be shown in answer to a message
+	 * @throws LocaleError every time
+	 */
+	async showModal(): Promise<never> {
+		throw new LocaleError(
+			'error.prefix.modal_unsupported',
+			undefined,
+			this.i18nInstance
+		);
+	}
+
+	/**
+	 * Converts interaction reply options to message options
+	 * @param options The reply content or options
+	 * @returns The message options
+	 */
+	private toMessageOptions(
+		options: ReplyOptions
+	): string | MessagePayload | Omit<MessageCreateOptions, 'flags'> {
+		if (typeof options === 'string' || options instanceof MessagePayload)
+			return options;
+		const messageOptions = { ...options } as InteractionReplyOptions;
+		delete messageOptions.ephemeral;
+		delete messageOptions.fetchReply;
+		delete messageOptions.flags;
+		return messageOptions as Omit<MessageCreateOptions, 'flags'>;
+	}
+}
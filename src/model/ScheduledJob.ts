@@ -0,0 +1,79 @@
+import { Client, Guild } from 'discord.js';
+import { CronExpression } from '../utils/CronExpression';
+
+/**
+ * Job run periodically by the scheduler of the bot, on a cron expression or a fixed interval
+ * @template T Type of the service injected into jobs
+ */
+export class ScheduledJob<T> {
+	/** Name of the job, used in logs */
+	name: string;
+
+	/** Cron expression of the runs (minute, hour, day of month, month, day of week), in local time */
+	cron?: string;
+
+	/** Delay between the runs in ms, used when no cron expression is set */
+	interval?: number;
+
+	/** Whether an instance of the job runs for every guild of the bot */
+	perGuild: boolean;
+
+	/** Whether the job also runs as soon as it is started */
+	runOnStart: boolean;
+
+	/**
+	 * Function to execute on each run
+	 * A run is skipped while the previous one of the same instance is still running
+	 * @param client The Discord client
+	 * @param service The service instance
+	 * @param guild The guild of the instance, for per-guild jobs only
+	 */
+	execute: (client: Client, service: T, guild?: Guild) => Promise<void>;
+
+	/** Parsed cron expression */
+	private expression?: CronExpression;
+
+	/**
+	 * Creates a new ScheduledJob instance
+	 * @param init Optional partial initialization object
+	 */
+	constructor(init?: Partial<ScheduledJob<T>>) {
+		// Default values
+		this.name = '';
+		this.perGuild = false;
+		this.runOnStart = false;
+		this.execute = async () => {}; // Empty default implementation
+
+		// Apply provided values
+		if (init) {
+			Object.assign(this, init);
+		}
+	}
+
+	/**
+	 * Checks that the job has a valid cron expression or interval
+	 * @throws Error if the job has no schedule, both schedules or an invalid one
+	 */
+	validate(): void {
+		if ((this.cron === undefined) === (this.interval === undefined))
+			throw new Error(
+				`Job ${this.name} must have either a cron expression or an interval`
+			);
+		if (this.interval !== undefined && !(this.interval > 0))
+			throw new Error(`Job ${this.name} must have a positive interval`);
+		if (this.cron !== undefined)
+			this.expression = CronExpression.parse(this.cron);
+	}
+
+	/**
+	 * Gets the time of the run following a given time
+	 * @param from The time to search from, in ms since the epoch
+	 * @returns The time of the next run, in ms since the epoch
+	 * @throws Error if the job has no valid schedule
+	 */
+	getNextRun(from: number): number {
+		if (this.interval !== undefined) return from + this.interval;
+		if (!this.expression) this.validate();
+		return this.expression!.next(new Date(from)).getTime();
+	}
+}
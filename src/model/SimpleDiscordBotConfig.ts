@@ -1,4 +1,11 @@
 import { GatewayIntentBits } from 'discord.js';
+import { InteractionStateStore } from '../services/InteractionStateStore';
+import { GuildLocaleOverride } from '../services/LocaleResolver';
+import { LocaleSource } from './LocaleSource';
+import { LocaleValidationMode } from '../utils/LocaleValidator';
+import { PrefixCommandOptions } from '../utils/PrefixCommandParser';
+import { Clock } from '../utils/Clock';
+import { AutoDefer } from './AutoDefer';
 
 /**
  * Configuration interface for the SimpleDiscordBot
@@ -17,6 +24,24 @@ export interface SimpleDiscordBotConfig {
 	 */
 	discord_id?: string;
 
+	/**
+	 * Guild ID used by commands registered with a dev scope
+	 * Guild commands update instantly, which makes them handy while developing
+	 */
+	dev_guild_id?: string;
+
+	/**
+	 * Whether registered commands that are no longer declared are deleted on start (false by default)
+	 * Otherwise they are kept and listed in a warning
+	 */
+	prune_commands?: boolean;
+
+	/**
+	 * User IDs of the bot owners
+	 * Only these users can run commands flagged as ownerOnly
+	 */
+	owner_ids?: string[];
+
 	/**
 	 * Array of Discord gateway intents required by the bot
 	 * Determines what events the bot will receive from Discord
@@ -29,6 +54,18 @@ export interface SimpleDiscordBotConfig {
 	 */
 	locale: string;
 
+	/**
+	 * Order in which the locale of an interaction is resolved
+	 * Defaults to user locale, guild locale, guild override, then the configured locale
+	 */
+	locale_chain?: LocaleSource[];
+
+	/**
+	 * Optional callback returning the locale chosen for a guild (e.g. stored in a database)
+	 * Used by the GUILD_OVERRIDE source of the locale chain
+	 */
+	guild_locale?: GuildLocaleOverride;
+
 	/**
 	 * List of available locales supported by the bot
 	 * Used for validation and fallback
@@ -40,4 +77,44 @@ export interface SimpleDiscordBotConfig {
 	 * Used by i18n for localization
 	 */
 	locale_directory: string;
+
+	/**
+	 * How locale files are validated against the default locale at startup ('warn' by default)
+	 * In strict mode, missing keys or placeholders prevent the bot from starting
+	 */
+	locale_validation?: LocaleValidationMode;
+
+	/**
+	 * Optional store keeping the payloads too large for a customId
+	 * Must be the store passed to buildStoredCustomId
+	 */
+	state_store?: InteractionStateStore;
+
+	/**
+	 * Optional prefix (message-based) commands, e.g. `!bet 10`, disabled by default
+	 * Adds the message intents, MessageContent must also be enabled in the Discord Developer Portal
+	 */
+	prefix_commands?: PrefixCommandOptions;
+
+	/**
+	 * Optional clock used by the scheduler of the bot, the system clock by default
+	 * Can be replaced by a ManualClock to test scheduled jobs deterministically
+	 */
+	clock?: Clock;
+
+	/**
+	 * Maximum time in ms stop() waits for the commands and jobs in progress (10 seconds by default)
+	 */
+	shutdown_timeout?: number;
+
+	/**
+	 * Whether the bot stops gracefully on SIGINT and SIGTERM, then exits the process (false by default)
+	 */
+	handle_signals?: boolean;
+
+	/**
+	 * Optional automatic deferral of the commands that don't declare their own `autoDefer`
+	 * e.g. `AutoDefer.beforeDeadline()` defers every command that hasn't answered after 2.5 seconds
+	 */
+	auto_defer?: AutoDefer;
 }
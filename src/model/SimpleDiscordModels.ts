@@ -1,24 +1,97 @@
 import {
+	AnySelectMenuInteraction,
 	APIApplicationCommandOptionChoice,
 	ApplicationCommandOptionType,
+	ApplicationCommandType,
+	Attachment,
 	AutocompleteInteraction,
 	BaseInteraction,
 	ButtonInteraction,
 	CacheType,
+	ChannelSelectMenuInteraction,
+	ChannelType,
 	ChatInputCommandInteraction,
 	Client,
+	Collection,
 	CommandInteraction,
+	CommandInteractionOption,
+	ModalBuilder,
 	ModalSubmitFields,
+	MessageContextMenuCommandInteraction,
 	ModalSubmitInteraction,
+	PermissionResolvable,
+	PermissionsBitField,
+	RoleSelectMenuInteraction,
+	User,
+	UserContextMenuCommandInteraction,
+	UserSelectMenuInteraction,
 } from 'discord.js';
 import { LocaleError } from './LocaleError';
+import {
+	AnyModalField,
+	ModalDefinition,
+	ModalValues,
+	Translator,
+} from './ModalDefinition';
 import { Loggers } from '../services/LoggerManager';
+import {
+	CommandDefinition,
+	CommandOptionDefinition,
+	ScopedCommandDefinitions,
+} from './CommandDefinition';
+import { CommandScope, CommandScopeType } from './CommandScope';
+import {
+	encodeCustomId,
+	encodeStateCustomId,
+	PayloadOf,
+	PayloadSchema,
+} from '../utils/CustomIdCodec';
+import {
+	InteractionStateStore,
+	MemoryStateStorage,
+} from '../services/InteractionStateStore';
+import { AutocompleteCandidate, filterChoices } from '../utils/Autocomplete';
+import { InvocationContext } from './InvocationContext';
+import { Middleware, MiddlewareContext } from './Middleware';
+import {
+	CommandLocalizer,
+	isValidCommandName,
+} from '../utils/CommandLocalizer';
+import { Cooldown } from './Cooldown';
+import { AutoDefer } from './AutoDefer';
+import {
+	CommandContext,
+	CommandIntegrationType,
+	getInteractionContext,
+} from './CommandContext';
+import { CooldownManager } from '../services/CooldownManager';
+import i18n, { I18n, Replacements } from 'i18n';
 
 export type AnyCommandInteraction =
 	| ChatInputCommandInteraction<CacheType>
 	| AutocompleteInteraction<CacheType>
 	| ModalSubmitInteraction<CacheType>
-	| ButtonInteraction<CacheType>;
+	| ButtonInteraction<CacheType>
+	| UserContextMenuCommandInteraction<CacheType>
+	| MessageContextMenuCommandInteraction<CacheType>
+	| AnySelectMenuInteraction<CacheType>;
+
+/** Contexts of component commands, their components can be sent wherever a command answers */
+const COMPONENT_CONTEXTS = [
+	CommandContext.GUILD,
+	CommandContext.BOT_DM,
+	CommandContext.PRIVATE_CHANNEL,
+];
+
+/**
+ * Checks whether a command is split into subcommands or subcommand groups
+ * @param command The command to check
+ * @returns true if the command has subcommands or groups
+ */
+const hasSubcommands = <T>(
+	command: Command<T, AnyCommandInteraction>
+): boolean =>
+	command.subcommands.length > 0 || command.subcommandGroups.length > 0;
 
 /**
  * Manages a collection of Discord commands and their aliases
@@ -26,18 +99,29 @@ export type AnyCommandInteraction =
 export class CommandList<T> {
 	private _commands: Map<string, Command<T, AnyCommandInteraction>> = new Map();
 	private _alias: Map<string, string> = new Map();
+	private _middlewares: Middleware<T>[] = [];
+	private _cooldowns: CooldownManager = new CooldownManager();
+	private _ownerIds: string[] = [];
+	private _autoDefer?: AutoDefer;
+	private _i18n?: I18n;
+	private _localizer?: CommandLocalizer;
 
 	/**
 	 * Adds a command to the command list
 	 * @param command The command to add
 	 * @returns The CommandList instance for chaining
 	 */
-	push = <C extends AnyCommandInteraction>(
-		command: Command<T, C>
+	push = <
+		C extends AnyCommandInteraction,
+		O extends readonly AnyCommandOption[],
+		E,
+		A,
+	>(
+		command: Command<T, C, O, E, A>
 	): CommandList<T> => {
 		this._commands.set(
 			command.name,
-			command as Command<T, AnyCommandInteraction>
+			command as unknown as Command<T, AnyCommandInteraction>
 		);
 		if (command.clickAlias) this._alias.set(command.clickAlias, command.name);
 		return this;
@@ -60,6 +144,61 @@ export class CommandList<T> {
 		return alias ? this._commands.get(alias) : undefined;
 	};
 
+	/**
+	 * Sets the i18n instance used to localize errors and middleware replies
+	 * Called by SimpleDiscordBot with its namespaced instance
+	 * @param i18nInstance The i18n instance
+	 * @returns The CommandList instance for chaining
+	 */
+	setI18n = (i18nInstance: I18n): CommandList<T> => {
+		this._i18n = i18nInstance;
+		return this;
+	};
+
+	/**
+	 * Sets the localizer generating the name and description localizations on build
+	 * Called by SimpleDiscordBot with its available locales
+	 * @param localizer The command localizer
+	 * @returns The CommandList instance for chaining
+	 */
+	setLocalizer = (localizer: CommandLocalizer): CommandList<T> => {
+		this._localizer = localizer;
+		return this;
+	};
+
+	/**
+	 * Sets the IDs of the users allowed to run owner-only commands
+	 * Called by SimpleDiscordBot with the `owner_ids` of its configuration
+	 * @param ownerIds The user IDs of the bot owners
+	 * @returns The CommandList instance for chaining
+	 */
+	setOwnerIds = (ownerIds: string[]): CommandList<T> => {
+		this._ownerIds = ownerIds;
+		return this;
+	};
+
+	/**
+	 * Sets the automatic deferral of the commands that don't declare their own
+	 * Called by SimpleDiscordBot with the `auto_defer` of its configuration
+	 * @param autoDefer The default automatic deferral
+	 * @returns The CommandList instance for chaining
+	 */
+	setAutoDefer = (autoDefer?: AutoDefer): CommandList<T> => {
+		this._autoDefer = autoDefer;
+		return this;
+	};
+
+	/**
+	 * Registers middlewares run around every command of the list
+	 * Global middlewares run before the ones registered on the commands
+	 * @param middlewares The middlewares to register
+	 * @returns The CommandList instance for chaining
+	 */
+	use = (...middlewares: Middleware<T>[]): CommandList<T> => {
+		this._middlewares.push(...middlewares);
+		return this;
+	};
+
 	/**
 	 * Executes a command based on the interaction and command name
 	 * @param interaction The Discord interaction
@@ -68,6 +207,7 @@ export class CommandList<T> {
 	 * @param commandName Optional command name override
 	 * @param extraInfo Optional extra information
 	 * @param modalPayload Optional modal payload
+	 * @param locale Optional locale resolved for the interaction, the default locale otherwise
 	 * @returns Promise that resolves when the command execution is complete
 	 * @throws LocaleError if the command name is missing or the command is not found
 	 */
@@ -77,7 +217,8 @@ export class CommandList<T> {
 		services: T,
 		commandName?: string,
 		extraInfo?: any,
-		modalPayload?: ModalSubmitFields
+		modalPayload?: ModalSubmitFields,
+		locale?: string
 	): Promise<void> => {
 		// Determine the command name from the interaction or the provided override
 		const cmdName =
@@ -86,7 +227,201 @@ export class CommandList<T> {
 		// Validate command name
 		if (!cmdName) {
 			Loggers.get().error('No command name provided for interaction');
-			throw new LocaleError('error.discord.no_command_name');
+			throw new LocaleError(
+				'error.discord.no_command_name',
+				undefined,
+				this._i18n
+			);
+		}
+
+		const { command, target, targetName } = this.resolveTarget(
+			interaction,
+			cmdName
+		);
+		const resolvedLocale = locale ?? (this._i18n ?? i18n).getLocale();
+		const t = (i18nKey: string, i18nArgs?: Replacements) =>
+			this.translate(i18nKey, i18nArgs, resolvedLocale);
+		// Modals declared with a definition are parsed and validated before reaching the command
+		const modalResult =
+			interaction.isModalSubmit() &&
+			target instanceof ModalSubmitCommand &&
+			target.modal
+				? target.modal.parse(interaction.fields, t)
+				: undefined;
+		const context: InvocationContext = {
+			args: interaction.isChatInputCommand()
+				? this.resolveArgs(target.options, interaction)
+				: interaction.isAnySelectMenu()
+					? { ...this.resolveSelection(interaction) }
+					: { ...modalResult?.values },
+			state: {},
+			locale: resolvedLocale,
+			t,
+		};
+
+		// Autocomplete is handled by the focused option when it can, then by the subcommand, by the command's execute otherwise
+		const focusedOption = interaction.isAutocomplete()
+			? this.getFocusedOption(target, interaction)
+			: undefined;
+		const autocomplete =
+			target instanceof SubCommand ? target.autocomplete : undefined;
+		const handler =
+			interaction.isAutocomplete() && focusedOption
+				? () => focusedOption.respond(interaction, client, services)
+				: interaction.isAutocomplete() && autocomplete
+					? () => autocomplete(interaction, client, services)
+					: () =>
+							// Type assertion needed because we can't guarantee the interaction type matches
+							// the command's expected type at compile time, but we validate at runtime
+							target.execute(
+								interaction as AnyCommandInteraction,
+								client,
+								services,
+								extraInfo,
+								modalPayload,
+								context
+							);
+
+		// Global middlewares first, then the command's, then the subcommand's
+		const middlewares = [
+			...this._middlewares,
+			...command.middlewares,
+			...(target !== command ? target.middlewares : []),
+		];
+
+		// Execute the command
+		try {
+			// Contexts are declared on top-level commands only
+			const interactionContext = getInteractionContext(interaction);
+			if (!command.contexts.includes(interactionContext)) {
+				Loggers.get().info(
+					`Command ${targetName} not allowed in context ${interactionContext}`
+				);
+				return await this.replyEphemeral(
+					interaction,
+					t(
+						interactionContext === CommandContext.GUILD
+							? 'error.discord.context_not_allowed'
+							: 'error.discord.no_guild_id'
+					)
+				);
+			}
+
+			// The guards of the parent command also apply to its subcommands
+			const guarded = target !== command ? [command, target] : [command];
+			if (!guarded.every((value) => this.isAllowed(interaction, value))) {
+				Loggers.get().info(
+					`Command ${targetName} denied to user ${interaction.user.id}`
+				);
+				return await this.replyEphemeral(
+					interaction,
+					t('error.discord.forbidden')
+				);
+			}
+
+			if (modalResult && modalResult.errors.length > 0) {
+				Loggers.get().info(
+					`Command ${targetName} received an invalid modal from user ${interaction.user.id}`
+				);
+				return await this.replyEphemeral(
+					interaction,
+					modalResult.errors.join('\n')
+				);
+			}
+
+			let refundCooldown: (() => void) | undefined;
+			if (!interaction.isAutocomplete()) {
+				const { remaining, refund } = this.consumeCooldown(
+					interaction,
+					command,
+					target,
+					targetName
+				);
+				refundCooldown = refund;
+				if (remaining > 0) {
+					Loggers.get().info(
+						`Command ${targetName} on cooldown for user ${interaction.user.id}`
+					);
+					return await this.replyEphemeral(
+						interaction,
+						t('error.discord.cooldown', {
+							seconds: `${Math.ceil(remaining / 1000)}`,
+						})
+					);
+				}
+			}
+
+			// A subcommand without its own deferral uses the one of its parent command
+			const autoDefer = interaction.isAutocomplete()
+				? undefined
+				: (target.autoDefer ?? command.autoDefer ?? this._autoDefer);
+			const disarm = await autoDefer?.arm(interaction);
+			let completed = false;
+			try {
+				await this.runMiddlewares(
+					middlewares,
+					{
+						interaction: interaction as AnyCommandInteraction,
+						client,
+						command: target,
+						commandName: targetName,
+						service: services,
+						extraInfo,
+						context,
+						deny: (i18nKey, i18nArgs) =>
+							this.replyEphemeral(interaction, t(i18nKey, i18nArgs)),
+					},
+					async () => {
+						await handler();
+						completed = true;
+					}
+				);
+			} finally {
+				disarm?.();
+				// A use denied by a middleware or failing doesn't count against the cooldown
+				if (!completed) refundCooldown?.();
+			}
+		} catch (error: any) {
+			Loggers.get().error(
+				`Error executing command ${targetName}: ${error.message}`
+			);
+			throw error; // Re-throw to allow the caller to handle it
+		}
+	};
+
+	/**
+	 * Resolves the command to run for an interaction, down to the subcommand if any
+	 * @param interaction The Discord interaction
+	 * @param cmdName The command name or alias
+	 * @returns The top-level command, the command to run and its full name
+	 * @throws LocaleError if the command or the subcommand is not found
+	 */
+	private resolveTarget = (
+		interaction: BaseInteraction,
+		cmdName: string
+	): {
+		command: Command<T, AnyCommandInteraction>;
+		target: Command<T, AnyCommandInteraction>;
+		targetName: string;
+	} => {
+		// Autocomplete is handled by the focused option or the subcommand itself when they can
+		if (interaction.isAutocomplete()) {
+			const parent = this.getCommand(interaction.commandName);
+			const leaf = parent && this.resolveSubcommand(parent, interaction);
+			const owner = leaf ?? parent;
+			if (
+				parent &&
+				owner &&
+				(leaf?.autocomplete || this.getFocusedOption(owner, interaction))
+			) {
+				return {
+					command: parent,
+					target: owner as Command<T, AnyCommandInteraction>,
+					targetName: leaf
+						? this.getSubcommandPath(parent, leaf, interaction)
+						: parent.name,
+				};
+			}
 		}
 
 		// Get the command
@@ -95,53 +430,484 @@ export class CommandList<T> {
 		// Validate command exists
 		if (!command) {
 			Loggers.get().error(`Command not found: ${cmdName}`);
-			throw new LocaleError('error.discord.command_not_found', {
-				command: cmdName,
+			throw new LocaleError(
+				'error.discord.command_not_found',
+				{ command: cmdName },
+				this._i18n
+			);
+		}
+
+		// Resolve the subcommand to run if the command is split into subcommands
+		if (hasSubcommands(command) && interaction.isChatInputCommand()) {
+			const leaf = this.resolveSubcommand(command, interaction);
+			if (!leaf) {
+				Loggers.get().error(`Subcommand not found for command: ${cmdName}`);
+				throw new LocaleError(
+					'error.discord.subcommand_not_found',
+					{ command: cmdName },
+					this._i18n
+				);
+			}
+			return {
+				command,
+				target: leaf as Command<T, AnyCommandInteraction>,
+				targetName: this.getSubcommandPath(command, leaf, interaction),
+			};
+		}
+
+		return { command, target: command, targetName: cmdName };
+	};
+
+	/**
+	 * Checks whether the user of an interaction passes the guards of a command
+	 * @param interaction The Discord interaction
+	 * @param command The command to check
+	 * @returns true if the user may run the command
+	 */
+	private isAllowed = (
+		interaction: BaseInteraction,
+		command: Command<T, AnyCommandInteraction>
+	): boolean => {
+		if (command.ownerOnly && !this._ownerIds.includes(interaction.user.id))
+			return false;
+
+		// Permissions are null outside of guilds, where they can't be checked
+		if (
+			command.permissions !== undefined &&
+			!interaction.memberPermissions?.has(command.permissions)
+		)
+			return false;
+
+		if (command.allowedRoles.length === 0) return true;
+		const roleIds = this.getMemberRoleIds(interaction);
+		const roleNames = roleIds.map(
+			(roleId) => interaction.guild?.roles.cache.get(roleId)?.name
+		);
+		return command.allowedRoles.some(
+			(role) => roleIds.includes(role) || roleNames.includes(role)
+		);
+	};
+
+	/**
+	 * Gets the role IDs of the member behind an interaction
+	 * @param interaction The Discord interaction
+	 * @returns The role IDs, empty outside of guilds
+	 */
+	private getMemberRoleIds = (interaction: BaseInteraction): string[] => {
+		const member = interaction.member;
+		if (!member) return [];
+		// Members of uncached guilds come as raw API data with an array of role IDs
+		return Array.isArray(member.roles)
+			? member.roles
+			: [...member.roles.cache.keys()];
+	};
+
+	/**
+	 * Records a use of the resolved command against its cooldown
+	 * A subcommand without its own cooldown shares the one of its parent command
+	 * @param interaction The Discord interaction
+	 * @param command The top-level command
+	 * @param target The command to run
+	 * @param targetName Full name of the command to run
+	 * @returns The time to wait in ms (0 if the command can run), and a function giving the recorded use back
+	 */
+	private consumeCooldown = (
+		interaction: BaseInteraction,
+		command: Command<T, AnyCommandInteraction>,
+		target: Command<T, AnyCommandInteraction>,
+		targetName: string
+	): { remaining: number; refund?: () => void } => {
+		const [cooldown, name] = target.cooldown
+			? [target.cooldown, targetName]
+			: [command.cooldown, command.name];
+		if (!cooldown) return { remaining: 0 };
+		const key = CooldownManager.getKey(name, cooldown, interaction);
+		const remaining = this._cooldowns.consume(key, cooldown);
+		return {
+			remaining,
+			refund:
+				remaining > 0 ? undefined : () => this._cooldowns.refund(key, cooldown),
+		};
+	};
+
+	/**
+	 * Finds the focused option of an autocomplete interaction when it has its own handler
+	 * @param command The command declaring the options
+	 * @param interaction The autocomplete interaction
+	 * @returns The focused option, or undefined if it has no autocomplete handler
+	 */
+	private getFocusedOption = (
+		command: Command<T, any>,
+		interaction: AutocompleteInteraction<CacheType>
+	): AnyCommandOption | undefined => {
+		const focusedName = interaction.options.getFocused(true).name;
+		return command.options.find(
+			(option) => option.name === focusedName && option.autocompleteHandler
+		);
+	};
+
+	/**
+	 * Builds the full name of a subcommand (e.g. `admin config set`)
+	 * @param command The parent command
+	 * @param leaf The subcommand
+	 * @param interaction The chat input or autocomplete interaction
+	 * @returns The full name of the subcommand
+	 */
+	private getSubcommandPath = (
+		command: Command<T, AnyCommandInteraction>,
+		leaf: SubCommand<T, any>,
+		interaction:
+			| ChatInputCommandInteraction<CacheType>
+			| AutocompleteInteraction<CacheType>
+	): string =>
+		[command.name, interaction.options.getSubcommandGroup(false), leaf.name]
+			.filter(Boolean)
+			.join(' ');
+
+	/**
+	 * Runs middlewares in order, then the handler if none short-circuited the chain
+	 * @param middlewares The middlewares to run
+	 * @param context The middleware context
+	 * @param handler The command handler, run at the end of the chain
+	 */
+	private runMiddlewares = async (
+		middlewares: Middleware<T>[],
+		context: MiddlewareContext<T>,
+		handler: () => Promise<void>
+	): Promise<void> => {
+		const dispatch = async (index: number): Promise<void> => {
+			const middleware = middlewares[index];
+			if (!middleware) return handler();
+
+			let nextCalled = false;
+			await middleware(context, async () => {
+				if (nextCalled)
+					throw new Error('next() called multiple times in a middleware');
+				nextCalled = true;
+				await dispatch(index + 1);
 			});
+		};
+		await dispatch(0);
+	};
+
+	/**
+	 * Translates a key with the i18n instance set by the bot
+	 * @param i18nKey The key to look up in the localization files
+	 * @param i18nArgs Optional replacement arguments
+	 * @param locale The locale to translate in
+	 * @returns The localized message
+	 */
+	private translate = (
+		i18nKey: string,
+		i18nArgs: Replacements | undefined,
+		locale: string
+	): string =>
+		(this._i18n ?? i18n).__({ phrase: i18nKey, locale }, i18nArgs ?? {});
+
+	/**
+	 * Replies with an ephemeral message, following up if the interaction was already answered
+	 * Autocomplete interactions can't show messages and get an empty list of choices instead
+	 * @param interaction The Discord interaction
+	 * @param content The message to send
+	 */
+	private replyEphemeral = async (
+		interaction: BaseInteraction,
+		content: string
+	): Promise<void> => {
+		if (interaction.isAutocomplete()) {
+			if (!interaction.responded) await interaction.respond([]);
+			return;
 		}
+		if (!interaction.isRepliable()) return;
 
-		// Execute the command
-		try {
-			// Type assertion needed because we can't guarantee the interaction type matches
-			// the command's expected type at compile time, but we validate at runtime
-			await command.execute(
-				interaction as AnyCommandInteraction,
-				client,
-				services,
-				extraInfo,
-				modalPayload
-			);
-		} catch (error: any) {
-			Loggers.get().error(
-				`Error executing command ${cmdName}: ${error.message}`
-			);
-			throw error; // Re-throw to allow the caller to handle it
+		if (interaction.deferred || interaction.replied) {
+			await interaction.followUp({ content, ephemeral: true });
+		} else {
+			await interaction.reply({ content, ephemeral: true });
+		}
+	};
+
+	/**
+	 * Finds the subcommand targeted by an interaction
+	 * @param command The parent command
+	 * @param interaction The chat input or autocomplete interaction
+	 * @returns The subcommand, or undefined if the interaction doesn't target one
+	 */
+	private resolveSubcommand = (
+		command: Command<T, AnyCommandInteraction>,
+		interaction:
+			| ChatInputCommandInteraction<CacheType>
+			| AutocompleteInteraction<CacheType>
+	): SubCommand<T, any> | undefined => {
+		const groupName = interaction.options.getSubcommandGroup(false);
+		const subcommandName = interaction.options.getSubcommand(false);
+		if (!subcommandName) return undefined;
+
+		const candidates = groupName
+			? command.subcommandGroups.find((group) => group.name === groupName)
+					?.subcommands
+			: command.subcommands;
+		return candidates?.find((subcommand) => subcommand.name === subcommandName);
+	};
+
+	/**
+	 * Resolves the typed arguments of a chat input interaction from the declared options
+	 * @param options The options declared by the executed command
+	 * @param interaction The chat input interaction
+	 * @returns Object mapping each option name to its value, or null when not provided
+	 */
+	private resolveArgs = (
+		options: readonly AnyCommandOption[],
+		interaction: ChatInputCommandInteraction<CacheType>
+	): Record<string, unknown> => {
+		const args: Record<string, unknown> = {};
+		for (const option of options) {
+			const data = interaction.options.get(option.name);
+			if (!data) {
+				args[option.name] = null;
+				continue;
+			}
+
+			switch (option.type) {
+				case ApplicationCommandOptionType.User:
+					args[option.name] = data.user ?? null;
+					break;
+				case ApplicationCommandOptionType.Channel:
+					args[option.name] = data.channel ?? null;
+					break;
+				case ApplicationCommandOptionType.Role:
+					args[option.name] = data.role ?? null;
+					break;
+				case ApplicationCommandOptionType.Mentionable:
+					args[option.name] = data.member ?? data.user ?? data.role ?? null;
+					break;
+				case ApplicationCommandOptionType.Attachment:
+					args[option.name] = data.attachment ?? null;
+					break;
+				default:
+					args[option.name] = data.value ?? null;
+			}
 		}
+		return args;
+	};
+
+	/**
+	 * Resolves the values and entities picked in a select menu
+	 * @param interaction The select menu interaction
+	 * @returns The selected values with the resolved users, members, roles and channels
+	 */
+	private resolveSelection = (
+		interaction: AnySelectMenuInteraction<CacheType>
+	): SelectMenuSelection => {
+		const hasUsers =
+			interaction.isUserSelectMenu() || interaction.isMentionableSelectMenu();
+		const hasRoles =
+			interaction.isRoleSelectMenu() || interaction.isMentionableSelectMenu();
+		return {
+			values: [...interaction.values],
+			users: hasUsers ? [...interaction.users.values()] : [],
+			members: hasUsers ? [...interaction.members.values()] : [],
+			roles: hasRoles ? [...interaction.roles.values()] : [],
+			channels: interaction.isChannelSelectMenu()
+				? [...interaction.channels.values()]
+				: [],
+		};
 	};
 
 	/**
 	 * Builds an array of command definitions for registration with Discord
 	 * @returns Array of command definitions
 	 */
-	build = (): {
-		name: string;
-		description: string;
-		options: CommandOption[];
-	}[] => {
+	build = (): CommandDefinition[] => {
 		const res = [];
 		for (const [, value] of this._commands) {
-			// Only include commands that should be registered
-			if (value.registerPredicate()) {
-				res.push({
-					name: value.name,
-					description: value.description,
-					options: value.options,
-				});
+			const definition = this.buildCommand(value);
+			if (definition) res.push(definition);
+		}
+		return res;
+	};
+
+	/**
+	 * Builds command definitions grouped by registration scope
+	 * @param devGuildId The development guild used by commands with a DEV scope
+	 * @returns Global command definitions and guild command definitions keyed by guild ID
+	 */
+	buildByScope = (devGuildId?: string): ScopedCommandDefinitions => {
+		const res: ScopedCommandDefinitions = { global: [], guilds: {} };
+		const addToGuild = (guildId: string, definition: CommandDefinition) => {
+			(res.guilds[guildId] ??= []).push(definition);
+		};
+
+		for (const [, value] of this._commands) {
+			const definition = this.buildCommand(value);
+			if (!definition) continue;
+
+			switch (value.scope.type) {
+				case CommandScopeType.GUILDS:
+					value.scope.guildIds.forEach((guildId) =>
+						addToGuild(guildId, definition)
+					);
+					break;
+				case CommandScopeType.DEV:
+					if (!devGuildId) {
+						Loggers.get().warn(
+							`Command ${value.name} has a dev scope but no dev guild is configured, skipping it`
+						);
+						break;
+					}
+					addToGuild(devGuildId, definition);
+					break;
+				case CommandScopeType.GLOBAL:
+				default:
+					res.global.push(definition);
 			}
 		}
 		return res;
 	};
 
+	/**
+	 * Builds the definition of a single command
+	 * @param command The command to build
+	 * @returns The command definition, or undefined if the command shouldn't be registered
+	 */
+	private buildCommand = (
+		command: Command<T, AnyCommandInteraction>
+	): CommandDefinition | undefined => {
+		// Only include commands that should be registered
+		if (!command.registerPredicate()) return undefined;
+
+		const permissions =
+			command.permissions !== undefined
+				? {
+						default_member_permissions: PermissionsBitField.resolve(
+							command.permissions
+						).toString(),
+					}
+				: {};
+		// Discord only supports contexts on global commands
+		const contexts =
+			command.scope.type === CommandScopeType.GLOBAL
+				? {
+						contexts: [...command.contexts].sort((a, b) => a - b),
+						integration_types: [...command.integrationTypes].sort(
+							(a, b) => a - b
+						),
+					}
+				: {};
+
+		// Context menu commands have no description nor options
+		if (command.type !== ApplicationCommandType.ChatInput) {
+			const nameLocalizations =
+				command.localizationKey &&
+				this._localizer?.localizeName(command.localizationKey, false);
+			const definition: CommandDefinition = {
+				name: command.name,
+				type: command.type,
+				description: '',
+				...(nameLocalizations && { name_localizations: nameLocalizations }),
+				...permissions,
+				...contexts,
+			};
+			this.validateNames(definition, false);
+			return definition;
+		}
+
+		const options = this.buildOptions(command);
+		// Skip commands whose subcommands were all filtered out
+		if (hasSubcommands(command) && options.length === 0) return undefined;
+
+		const definition: CommandDefinition = {
+			name: command.name,
+			type: command.type,
+			...this.localizeFields(command.localizationKey, command.description),
+			options,
+			...permissions,
+			...contexts,
+		};
+		this.validateNames(definition, true);
+		return definition;
+	};
+
+	/**
+	 * Generates the description and localizations of a command, subcommand or group
+	 * @param localizationKey The localization key of the element, if any
+	 * @param description The base description
+	 * @returns The description, with the localizations when a key and a localizer are set
+	 */
+	private localizeFields = (
+		localizationKey: string | undefined,
+		description: string
+	): Pick<
+		CommandDefinition,
+		'description' | 'name_localizations' | 'description_localizations'
+	> =>
+		localizationKey && this._localizer
+			? this._localizer.localizeFields(localizationKey, description)
+			: { description };
+
+	/**
+	 * Logs the names of a definition and its options that Discord would reject
+	 * @param definition The command or option definition
+	 * @param chatInput Whether the name is the one of a slash command or option
+	 */
+	private validateNames = (
+		definition: CommandDefinition | CommandOptionDefinition,
+		chatInput: boolean
+	): void => {
+		if (!isValidCommandName(definition.name, chatInput))
+			Loggers.get().error(
+				`Invalid name "${definition.name}", Discord requires ${chatInput ? 'lowercase names without spaces of' : 'names of 1 to'} 32 characters at most`
+			);
+		definition.options?.forEach((option) => this.validateNames(option, true));
+	};
+
+	/**
+	 * Builds the option definitions of a command, including its subcommands and groups
+	 * @param command The command to build options for
+	 * @returns Array of option definitions
+	 */
+	private buildOptions = (
+		command: Command<T, AnyCommandInteraction>
+	): CommandOptionDefinition[] => {
+		if (!hasSubcommands(command))
+			return command.options.map((option) => option.build(this._localizer));
+
+		const groups = command.subcommandGroups
+			.filter((group) => group.registerPredicate())
+			.map((group) => ({
+				name: group.name,
+				...this.localizeFields(group.localizationKey, group.description),
+				type: ApplicationCommandOptionType.SubcommandGroup,
+				options: this.buildSubcommands(group.subcommands),
+			}))
+			.filter((group) => group.options.length > 0);
+
+		return [...groups, ...this.buildSubcommands(command.subcommands)];
+	};
+
+	/**
+	 * Builds the option definitions of a list of subcommands
+	 * @param subcommands The subcommands to build
+	 * @returns Array of option definitions for subcommands that should be registered
+	 */
+	private buildSubcommands = (
+		subcommands: SubCommand<T>[]
+	): CommandOptionDefinition[] => {
+		return subcommands
+			.filter((subcommand) => subcommand.registerPredicate())
+			.map((subcommand) => ({
+				name: subcommand.name,
+				...this.localizeFields(
+					subcommand.localizationKey,
+					subcommand.description
+				),
+				type: ApplicationCommandOptionType.Subcommand,
+				options: subcommand.options.map((option) =>
+					option.build(this._localizer)
+				),
+			}));
+	};
+
 	/**
 	 * Gets all registered commands
 	 * @returns Array of all commands
@@ -149,12 +915,39 @@ export class CommandList<T> {
 	getAllCommands = (): Command<T, AnyCommandInteraction>[] => {
 		return Array.from(this._commands.values());
 	};
+
+	/**
+	 * Stops sweeping the cooldowns and the autocomplete caches of the options, and clears them
+	 * Called by SimpleDiscordBot when it stops
+	 */
+	dispose = (): void => {
+		this._cooldowns.dispose();
+		for (const command of this._commands.values()) {
+			const subcommands = [
+				...command.subcommands,
+				...command.subcommandGroups.flatMap((group) => group.subcommands),
+			];
+			for (const value of [command, ...subcommands])
+				for (const option of value.options) option.dispose();
+		}
+	};
 }
 
 /**
  * Base command class for Discord interactions
+ * @template T Type of the service injected into the command
+ * @template C Type of the interaction handled by the command
+ * @template O Type of the declared options, used to infer the typed arguments
+ * @template E Type of the extra information decoded from the customId
+ * @template A Type of the arguments of the invocation context, resolved from the options by default
  */
-export class Command<T, C extends AnyCommandInteraction> {
+export class Command<
+	T,
+	C extends AnyCommandInteraction,
+	O extends readonly AnyCommandOption[] = AnyCommandOption[],
+	E = any,
+	A = CommandArgs<O>,
+> {
 	/** Command name used for slash commands */
 	name: string;
 
@@ -164,8 +957,56 @@ export class Command<T, C extends AnyCommandInteraction> {
 	/** Command description shown in Discord */
 	description: string;
 
+	/**
+	 * Optional key of the name and description translations in the locale files
+	 * Translations are looked up under `<key>.name` and `<key>.description`, an empty description falls back to the default locale
+	 */
+	localizationKey?: string;
+
+	/** Type of application command (slash command, user or message context menu) */
+	type: ApplicationCommandType;
+
 	/** Command options/arguments */
-	options: CommandOption[];
+	options: O;
+
+	/** Where the command is registered (global by default) */
+	scope: CommandScope;
+
+	/** Middlewares run around this command, after the ones registered on the CommandList */
+	middlewares: Middleware<T>[];
+
+	/**
+	 * Discord permissions a member needs to run the command
+	 * Sent as `default_member_permissions`, only the ones of top-level commands are registered
+	 */
+	permissions?: PermissionResolvable;
+
+	/** Role IDs or names allowed to run the command, any role when empty */
+	allowedRoles: string[];
+
+	/** Whether only the bot owners (`owner_ids` in the configuration) can run the command */
+	ownerOnly: boolean;
+
+	/**
+	 * Where the command can be used (guilds only by default, everywhere for component commands)
+	 * Enforced when the command runs, only the ones of top-level commands apply
+	 */
+	contexts: CommandContext[];
+
+	/** How the application must be installed for the command to be available (guild install by default) */
+	integrationTypes: CommandIntegrationType[];
+
+	/** Optional cooldown limiting how often the command can be used */
+	cooldown?: Cooldown;
+
+	/**
+	 * Optional automatic deferral, for commands that can take more than the 3 seconds Discord allows
+	 * Defaults to the `auto_defer` of the bot configuration
+	 */
+	autoDefer?: AutoDefer;
+
+	/** Schema of the payload carried by the customId, used to decode extraInfo */
+	payloadSchema?: PayloadSchema;
 
 	/**
 	 * Function to execute when the command is triggered
@@ -175,8 +1016,9 @@ export class Command<T, C extends AnyCommandInteraction> {
 		interaction: C,
 		client: Client,
 		service: T,
-		extraInfo?: any,
-		modalPayload?: ModalSubmitFields
+		extraInfo: E,
+		modalPayload: ModalSubmitFields | undefined,
+		context: InvocationContext<A>
 	) => Promise<void>;
 
 	/**
@@ -185,16 +1027,31 @@ export class Command<T, C extends AnyCommandInteraction> {
 	 */
 	registerPredicate: () => boolean;
 
+	/** Subcommands of this command (e.g. `/bet create`), each with its own execute */
+	subcommands: SubCommand<T, any>[];
+
+	/** Subcommand groups of this command (e.g. `/admin config set`) */
+	subcommandGroups: SubCommandGroup<T>[];
+
 	/**
 	 * Creates a new Command instance
 	 * @param init Optional partial initialization object
 	 */
-	public constructor(init?: Partial<Command<T, C>>) {
+	public constructor(init?: Partial<Command<T, C, O, E, A>>) {
 		// Default values
 		this.name = '';
 		this.clickAlias = '';
 		this.description = '';
-		this.options = [];
+		this.type = ApplicationCommandType.ChatInput;
+		this.options = [] as unknown as O;
+		this.scope = CommandScope.global();
+		this.middlewares = [];
+		this.allowedRoles = [];
+		this.ownerOnly = false;
+		this.contexts = [CommandContext.GUILD];
+		this.integrationTypes = [CommandIntegrationType.GUILD_INSTALL];
+		this.subcommands = [];
+		this.subcommandGroups = [];
 		this.execute = async () => {}; // Empty default implementation
 		this.registerPredicate = () => true;
 
@@ -203,23 +1060,294 @@ export class Command<T, C extends AnyCommandInteraction> {
 			Object.assign(this, init);
 		}
 	}
+
+	/**
+	 * Builds a customId routed to this command
+	 * @param route The route prefix the bot adds to the customId prefix (e.g. `button_`)
+	 * @param payload The payload to encode
+	 * @returns The customId
+	 */
+	protected encodeCustomId(route: string, payload: E): string {
+		return encodeCustomId(
+			this.getCustomIdPrefix(route),
+			payload as Record<string, unknown>,
+			this.payloadSchema
+		);
+	}
+
+	/**
+	 * Stores a payload and builds a customId routed to this command that only carries its token
+	 * @param route The route prefix the bot adds to the customId prefix (e.g. `button_`)
+	 * @param store The store keeping the payload
+	 * @param payload The payload to store
+	 * @param ttl Optional time to live of the payload in ms
+	 * @returns The customId
+	 */
+	protected async encodeStoredCustomId(
+		route: string,
+		store: InteractionStateStore,
+		payload: E,
+		ttl?: number
+	): Promise<string> {
+		const token = await store.put(payload, ttl);
+		return encodeStateCustomId(this.getCustomIdPrefix(route), token);
+	}
+
+	/**
+	 * Gets the customId prefix routed to this command
+	 * @param route The route prefix the bot adds to the customId prefix (e.g. `button_`)
+	 * @returns The customId prefix
+	 */
+	private getCustomIdPrefix(route: string): string {
+		const alias = this.clickAlias || this.name;
+		return alias.startsWith(route) ? alias.slice(route.length) : alias;
+	}
+}
+
+/**
+ * Subcommand of a slash command (e.g. `create` in `/bet create`)
+ * Options, execute and registerPredicate apply to this subcommand only
+ */
+export class SubCommand<
+	T,
+	O extends readonly AnyCommandOption[] = AnyCommandOption[],
+> extends Command<T, ChatInputCommandInteraction<CacheType>, O> {
+	/** Optional autocomplete handler for the options of this subcommand */
+	autocomplete?: (
+		interaction: AutocompleteInteraction<CacheType>,
+		client: Client,
+		service: T
+	) => Promise<void>;
+
+	constructor(init?: Partial<SubCommand<T, O>>) {
+		super(init);
+		// Class fields are redefined after super(), the handler is applied again
+		this.autocomplete = init?.autocomplete;
+	}
+}
+
+/**
+ * Group of subcommands (e.g. `config` in `/admin config set`)
+ */
+export class SubCommandGroup<T> {
+	/** Group name */
+	name: string;
+
+	/** Group description shown in Discord */
+	description: string;
+
+	/** Optional key of the name and description translations in the locale files */
+	localizationKey?: string;
+
+	/** Subcommands contained in this group */
+	subcommands: SubCommand<T, any>[];
+
+	/** Function that determines if this group should be registered with Discord */
+	registerPredicate: () => boolean;
+
+	/**
+	 * Creates a new SubCommandGroup instance
+	 * @param init Optional partial initialization object
+	 */
+	public constructor(init?: Partial<SubCommandGroup<T>>) {
+		// Default values
+		this.name = '';
+		this.description = '';
+		this.subcommands = [];
+		this.registerPredicate = () => true;
+
+		// Apply provided values
+		if (init) {
+			Object.assign(this, init);
+		}
+	}
 }
 
-export class ModalSubmitCommand<T> extends Command<
+export class ModalSubmitCommand<
+	T,
+	S extends PayloadSchema = PayloadSchema,
+	F extends readonly AnyModalField[] = AnyModalField[],
+> extends Command<
 	T,
-	ModalSubmitInteraction<CacheType>
+	ModalSubmitInteraction<CacheType>,
+	AnyCommandOption[],
+	PayloadOf<S>,
+	ModalValues<F>
 > {
-	constructor(init?: Partial<ModalSubmitCommand<T>>) {
+	/** Schema of the payload carried by the modal customId */
+	declare payloadSchema?: S;
+
+	/**
+	 * Optional definition of the modal, its submission is then parsed into the args of the invocation context
+	 * Invalid submissions are answered with the localized validation errors without reaching execute
+	 */
+	modal?: ModalDefinition<F>;
+
+	constructor(init?: Partial<ModalSubmitCommand<T, S, F>>) {
 		super(init);
+		this.contexts = init?.contexts ?? [...COMPONENT_CONTEXTS];
+		this.modal = init?.modal;
 		this.registerPredicate = () => false;
 	}
+
+	/**
+	 * Builds the modal submitted to this command from its definition
+	 * @param t Translator used for the title, labels and placeholders, e.g. the `t` of the invocation context
+	 * @param payload The payload to pass as extraInfo
+	 * @returns The modal, ready to be passed to showModal
+	 * @throws Error if the command has no modal definition
+	 */
+	buildModal(t: Translator, payload: PayloadOf<S>): ModalBuilder {
+		if (!this.modal)
+			throw new Error(`Command ${this.name} has no modal definition`);
+		return this.modal.build(this.buildCustomId(payload), t);
+	}
+
+	/**
+	 * Builds the customId of a modal submitted to this command
+	 * @param payload The payload to pass as extraInfo
+	 * @returns The customId
+	 */
+	buildCustomId(payload: PayloadOf<S>): string {
+		return this.encodeCustomId('submit_', payload);
+	}
+
+	/**
+	 * Builds the customId of a modal submitted to this command, keeping the payload in a state store
+	 * Use it when the payload doesn't fit in a customId
+	 * @param store The store keeping the payload
+	 * @param payload The payload to pass as extraInfo
+	 * @param ttl Optional time to live of the payload in ms
+	 * @returns The customId
+	 */
+	buildStoredCustomId(
+		store: InteractionStateStore,
+		payload: PayloadOf<S>,
+		ttl?: number
+	): Promise<string> {
+		return this.encodeStoredCustomId('submit_', store, payload, ttl);
+	}
 }
 
-export class ButtonCommand<T> extends Command<T, ButtonInteraction<CacheType>> {
-	constructor(init?: Partial<ButtonCommand<T>>) {
+/**
+ * Command handling a select menu (string, user, role, mentionable or channel select)
+ * Every selected value and the resolved entities are passed as the args of the invocation context
+ */
+export class SelectMenuCommand<
+	T,
+	S extends PayloadSchema = PayloadSchema,
+> extends Command<
+	T,
+	AnySelectMenuInteraction<CacheType>,
+	AnyCommandOption[],
+	PayloadOf<S>,
+	SelectMenuSelection
+> {
+	/** Schema of the payload carried by the select menu customId */
+	declare payloadSchema?: S;
+
+	constructor(init?: Partial<SelectMenuCommand<T, S>>) {
 		super(init);
+		this.contexts = init?.contexts ?? [...COMPONENT_CONTEXTS];
 		this.registerPredicate = () => false;
 	}
+
+	/**
+	 * Builds the customId of a select menu routed to this command
+	 * @param payload The payload to pass as extraInfo
+	 * @returns The customId
+	 */
+	buildCustomId(payload: PayloadOf<S>): string {
+		return this.encodeCustomId('select_', payload);
+	}
+
+	/**
+	 * Builds the customId of a select menu routed to this command, keeping the payload in a state store
+	 * Use it when the payload doesn't fit in a customId
+	 * @param store The store keeping the payload
+	 * @param payload The payload to pass as extraInfo
+	 * @param ttl Optional time to live of the payload in ms
+	 * @returns The customId
+	 */
+	buildStoredCustomId(
+		store: InteractionStateStore,
+		payload: PayloadOf<S>,
+		ttl?: number
+	): Promise<string> {
+		return this.encodeStoredCustomId('select_', store, payload, ttl);
+	}
+}
+
+export class ButtonCommand<
+	T,
+	S extends PayloadSchema = PayloadSchema,
+> extends Command<
+	T,
+	ButtonInteraction<CacheType>,
+	AnyCommandOption[],
+	PayloadOf<S>
+> {
+	/** Schema of the payload carried by the button customId */
+	declare payloadSchema?: S;
+
+	constructor(init?: Partial<ButtonCommand<T, S>>) {
+		super(init);
+		this.contexts = init?.contexts ?? [...COMPONENT_CONTEXTS];
+		this.registerPredicate = () => false;
+	}
+
+	/**
+	 * Builds the customId of a button routed to this command
+	 * @param payload The payload to pass as extraInfo
+	 * @returns The customId
+	 */
+	buildCustomId(payload: PayloadOf<S>): string {
+		return this.encodeCustomId('button_', payload);
+	}
+
+	/**
+	 * Builds the customId of a button routed to this command, keeping the payload in a state store
+	 * Use it when the payload doesn't fit in a customId
+	 * @param store The store keeping the payload
+	 * @param payload The payload to pass as extraInfo
+	 * @param ttl Optional time to live of the payload in ms
+	 * @returns The customId
+	 */
+	buildStoredCustomId(
+		store: InteractionStateStore,
+		payload: PayloadOf<S>,
+		ttl?: number
+	): Promise<string> {
+		return this.encodeStoredCustomId('button_', store, payload, ttl);
+	}
+}
+
+/**
+ * Context menu command shown when right-clicking a user ("Apps" > "Show profile")
+ * The command name is the label displayed in Discord
+ */
+export class UserContextCommand<T> extends Command<
+	T,
+	UserContextMenuCommandInteraction<CacheType>
+> {
+	constructor(init?: Partial<UserContextCommand<T>>) {
+		super(init);
+		this.type = ApplicationCommandType.User;
+	}
+}
+
+/**
+ * Context menu command shown when right-clicking a message ("Apps" > "Report message")
+ * The command name is the label displayed in Discord
+ */
+export class MessageContextCommand<T> extends Command<
+	T,
+	MessageContextMenuCommandInteraction<CacheType>
+> {
+	constructor(init?: Partial<MessageContextCommand<T>>) {
+		super(init);
+		this.type = ApplicationCommandType.Message;
+	}
 }
 
 export class AutoCompleteCommand<T> extends Command<
@@ -232,21 +1360,145 @@ export class AutoCompleteCommand<T> extends Command<
 	}
 }
 
+/**
+ * Function providing the autocomplete candidates of an option
+ * When the candidates are cached, the returned list must not depend on the typed value
+ * @template T Type of the service injected into the handler
+ */
+export type OptionAutocompleteHandler<T = unknown> = (context: {
+	/** Value typed by the user */
+	query: string;
+	/** The autocomplete interaction */
+	interaction: AutocompleteInteraction<CacheType>;
+	/** The Discord client */
+	client: Client;
+	/** The service instance */
+	service: T;
+}) =>
+	| readonly AutocompleteCandidate[]
+	| Promise<readonly AutocompleteCandidate[]>;
+
+/**
+ * Filtering and caching of the autocomplete candidates of an option
+ */
+export interface OptionAutocompleteOptions {
+	/** Whether the candidates are fuzzy-filtered against the typed value (true by default) */
+	filter?: boolean;
+
+	/** Duration in ms the candidates are cached for, so the handler doesn't run on every keystroke */
+	cacheTtl?: number;
+
+	/** Key the cached candidates are shared by (the user ID by default) */
+	cacheKey?: (interaction: AutocompleteInteraction<CacheType>) => string;
+}
+
+/** Value type of the entries of a collection */
+type CollectionValue<C> = C extends Collection<string, infer V> ? V : never;
+
+/**
+ * Values and entities picked in a select menu
+ * Entity lists are empty for select menus that don't pick them
+ */
+export interface SelectMenuSelection {
+	/** Selected values, the IDs of the picked entities for entity selects */
+	values: string[];
+
+	/** Picked users (user and mentionable selects) */
+	users: User[];
+
+	/** Members of the picked users, when picked in a guild */
+	members: CollectionValue<UserSelectMenuInteraction<CacheType>['members']>[];
+
+	/** Picked roles (role and mentionable selects) */
+	roles: CollectionValue<RoleSelectMenuInteraction<CacheType>['roles']>[];
+
+	/** Picked channels (channel selects) */
+	channels: CollectionValue<
+		ChannelSelectMenuInteraction<CacheType>['channels']
+	>[];
+}
+
+/** Length constraints accepted by string options */
+type LengthConstraints = Pick<CommandOption, 'min_length' | 'max_length'>;
+
+/** Value constraints accepted by integer and number options */
+type ValueConstraints = Pick<CommandOption, 'min_value' | 'max_value'>;
+
+/** Value resolved for a channel option */
+type ChannelOptionValue = NonNullable<
+	CommandInteractionOption<CacheType>['channel']
+>;
+
+/** Value resolved for a role option */
+type RoleOptionValue = NonNullable<CommandInteractionOption<CacheType>['role']>;
+
+/** Value resolved for a mentionable option */
+type MentionableOptionValue = NonNullable<
+	CommandInteractionOption<CacheType>['member' | 'role' | 'user']
+>;
+
+/** Union of the choice values when choices are declared, the fallback type otherwise */
+type ChoiceValue<
+	C extends readonly APIApplicationCommandOptionChoice[],
+	Fallback,
+> = [C[number]] extends [never] ? Fallback : C[number]['value'];
+
+/** Any command option, whatever its name, value type and required flag */
+export type AnyCommandOption = CommandOption<string, any, boolean>;
+
+/**
+ * Typed arguments inferred from a list of command options
+ * Required options are non-null, optional ones may be null
+ */
+export type CommandArgs<O extends readonly AnyCommandOption[]> = {
+	[K in O[number] as K['name']]: K extends CommandOption<
+		string,
+		infer V,
+		infer R
+	>
+		? R extends true
+			? V
+			: V | null
+		: never;
+};
+
 /**
  * Represents a command option/argument for Discord slash commands
+ * @template N Option name, used as key of the typed arguments
+ * @template V Type of the value resolved for this option
+ * @template R Whether the option is required
  */
-export class CommandOption {
+export class CommandOption<
+	N extends string = string,
+	V = unknown,
+	R extends boolean = boolean,
+> {
 	/** Option name (shown to users in Discord) */
-	name: string;
+	name: N;
 
 	/** Option description (shown to users in Discord) */
 	description: string;
 
+	/**
+	 * Optional key of the name, description and choice translations in the locale files
+	 * Choices are looked up under `<key>.choices.<value>`
+	 */
+	localizationKey?: string;
+
 	/** Whether this option supports autocomplete */
 	autocomplete: boolean = false;
 
+	/** Optional handler providing the autocomplete candidates of this option */
+	autocompleteHandler?: OptionAutocompleteHandler<any>;
+
+	/** Filtering and caching of the autocomplete candidates */
+	autocompleteOptions: OptionAutocompleteOptions = {};
+
+	/** Cached candidates, created when a cache duration is set */
+	private autocompleteCache?: MemoryStateStorage;
+
 	/** Whether this option is required */
-	required: boolean = false;
+	required: R = false as R;
 
 	/** The type of option (string, integer, boolean, etc.) */
 	type: ApplicationCommandOptionType;
@@ -254,13 +1506,31 @@ export class CommandOption {
 	/** Predefined choices for this option */
 	choices: APIApplicationCommandOptionChoice[] = [];
 
+	/** Minimum value allowed (integer and number options) */
+	min_value?: number;
+
+	/** Maximum value allowed (integer and number options) */
+	max_value?: number;
+
+	/** Minimum length allowed (string options) */
+	min_length?: number;
+
+	/** Maximum length allowed (string options) */
+	max_length?: number;
+
+	/** Channel types that can be picked (channel options) */
+	channel_types?: ChannelType[];
+
+	/** Type-only marker carrying the resolved value type, never set at runtime */
+	declare readonly _value?: V;
+
 	/**
 	 * Creates a new CommandOption instance
 	 * @param init Optional partial initialization object
 	 */
-	public constructor(init?: Partial<CommandOption>) {
+	public constructor(init?: Partial<CommandOption<N, V, R>>) {
 		// Default values
-		this.name = '';
+		this.name = '' as N;
 		this.description = '';
 		this.type = ApplicationCommandOptionType.String; // Default to string type
 
@@ -270,6 +1540,117 @@ export class CommandOption {
 		}
 	}
 
+	/**
+	 * Attaches an autocomplete handler to this option
+	 * The handler returns candidates, which are fuzzy-filtered against the typed value and truncated to 25 choices
+	 * @template T Type of the service injected into the handler, the one of the CommandList
+	 * @param handler Function providing the candidates
+	 * @param options Optional filtering and caching of the candidates
+	 * @returns The CommandOption instance for chaining
+	 */
+	withAutocomplete = <T>(
+		handler: OptionAutocompleteHandler<T>,
+		options: OptionAutocompleteOptions = {}
+	): this => {
+		this.autocomplete = true;
+		this.autocompleteHandler = handler;
+		this.autocompleteOptions = options;
+		return this;
+	};
+
+	/**
+	 * Responds to an autocomplete interaction focused on this option
+	 * @param interaction The autocomplete interaction
+	 * @param client The Discord client
+	 * @param service The service instance
+	 */
+	respond = async (
+		interaction: AutocompleteInteraction<CacheType>,
+		client: Client,
+		service: unknown
+	): Promise<void> => {
+		const handler = this.autocompleteHandler;
+		if (!handler) return;
+		const { filter = true, cacheTtl, cacheKey } = this.autocompleteOptions;
+		const query = String(interaction.options.getFocused(true).value);
+
+		const fetchCandidates = () =>
+			handler({ query, interaction, client, service });
+
+		let candidates: readonly AutocompleteCandidate[];
+		if (cacheTtl) {
+			// The candidate list is fetched once per key, then filtered locally on each keystroke
+			const key = cacheKey?.(interaction) ?? interaction.user.id;
+			this.autocompleteCache ??= new MemoryStateStorage();
+			const cached = (await this.autocompleteCache.get(key)) as
+				| AutocompleteCandidate[]
+				| undefined;
+			candidates = cached ?? (await fetchCandidates());
+			if (!cached) await this.autocompleteCache.set(key, candidates, cacheTtl);
+		} else {
+			candidates = await fetchCandidates();
+		}
+
+		const choices = filterChoices(filter ? query : '', candidates);
+		if (!interaction.responded) await interaction.respond(choices);
+	};
+
+	/**
+	 * Stops sweeping the cached autocomplete candidates and clears them
+	 */
+	dispose = (): void => {
+		this.autocompleteCache?.dispose();
+		this.autocompleteCache = undefined;
+	};
+
+	/**
+	 * Sets the key of the translations of this option
+	 * @param localizationKey The key of the name, description and choice translations in the locale files
+	 * @returns The CommandOption instance for chaining
+	 */
+	localized = (localizationKey: string): this => {
+		this.localizationKey = localizationKey;
+		return this;
+	};
+
+	/**
+	 * Builds the option definition for registration with Discord
+	 * Constraint fields are only included when they are set
+	 * @param localizer Optional localizer generating the localizations of the option and its choices
+	 * @returns The option definition
+	 */
+	build = (localizer?: CommandLocalizer): CommandOptionDefinition => {
+		const key = this.localizationKey;
+		const choices =
+			key && localizer
+				? this.choices.map((choice) => {
+						const localizations = localizer.localizeChoice(key, choice.value);
+						return localizations
+							? { ...choice, name_localizations: localizations }
+							: choice;
+					})
+				: this.choices;
+
+		return {
+			name: this.name,
+			...(key && localizer
+				? localizer.localizeFields(key, this.description)
+				: { description: this.description }),
+			type: this.type,
+			required: this.required,
+			autocomplete: this.autocomplete,
+			...(choices.length > 0 && { choices }),
+			...(this.min_value !== undefined && { min_value: this.min_value }),
+			...(this.max_value !== undefined && { max_value: this.max_value }),
+			...(this.min_length !== undefined && { min_length: this.min_length }),
+			...(this.max_length !== undefined && { max_length: this.max_length }),
+			...(this.channel_types &&
+				this.channel_types.length > 0 && {
+					channel_types: this.channel_types,
+				}),
+		};
+	};
+
 	/**
 	 * Creates a string option
 	 * @param name Option name
@@ -277,22 +1658,29 @@ export class CommandOption {
 	 * @param required Whether the option is required
 	 * @param autocomplete Whether the option supports autocomplete
 	 * @param choices Predefined choices
+	 * @param constraints Optional minimum and maximum length
 	 * @returns A new CommandOption instance
 	 */
-	static string(
-		name: string,
+	static string<
+		const N extends string,
+		R extends boolean = false,
+		const C extends readonly APIApplicationCommandOptionChoice<string>[] = [],
+	>(
+		name: N,
 		description: string,
-		required: boolean = false,
+		required: R = false as R,
 		autocomplete: boolean = false,
-		choices: APIApplicationCommandOptionChoice[] = []
-	): CommandOption {
-		return new CommandOption({
+		choices: C = [] as unknown as C,
+		constraints: LengthConstraints = {}
+	): CommandOption<N, ChoiceValue<C, string>, R> {
+		return new CommandOption<N, ChoiceValue<C, string>, R>({
 			name,
 			description,
 			type: ApplicationCommandOptionType.String,
 			required,
 			autocomplete,
-			choices,
+			choices: [...choices],
+			...constraints,
 		});
 	}
 
@@ -302,20 +1690,57 @@ export class CommandOption {
 	 * @param description Option description
 	 * @param required Whether the option is required
 	 * @param choices Predefined choices
+	 * @param constraints Optional minimum and maximum value
 	 * @returns A new CommandOption instance
 	 */
-	static integer(
-		name: string,
+	static integer<
+		const N extends string,
+		R extends boolean = false,
+		const C extends readonly APIApplicationCommandOptionChoice<number>[] = [],
+	>(
+		name: N,
 		description: string,
-		required: boolean = false,
-		choices: APIApplicationCommandOptionChoice[] = []
-	): CommandOption {
-		return new CommandOption({
+		required: R = false as R,
+		choices: C = [] as unknown as C,
+		constraints: ValueConstraints = {}
+	): CommandOption<N, ChoiceValue<C, number>, R> {
+		return new CommandOption<N, ChoiceValue<C, number>, R>({
 			name,
 			description,
 			type: ApplicationCommandOptionType.Integer,
 			required,
-			choices,
+			choices: [...choices],
+			...constraints,
+		});
+	}
+
+	/**
+	 * Creates a number (floating point) option
+	 * @param name Option name
+	 * @param description Option description
+	 * @param required Whether the option is required
+	 * @param choices Predefined choices
+	 * @param constraints Optional minimum and maximum value
+	 * @returns A new CommandOption instance
+	 */
+	static number<
+		const N extends string,
+		R extends boolean = false,
+		const C extends readonly APIApplicationCommandOptionChoice<number>[] = [],
+	>(
+		name: N,
+		description: string,
+		required: R = false as R,
+		choices: C = [] as unknown as C,
+		constraints: ValueConstraints = {}
+	): CommandOption<N, ChoiceValue<C, number>, R> {
+		return new CommandOption<N, ChoiceValue<C, number>, R>({
+			name,
+			description,
+			type: ApplicationCommandOptionType.Number,
+			required,
+			choices: [...choices],
+			...constraints,
 		});
 	}
 
@@ -326,16 +1751,119 @@ export class CommandOption {
 	 * @param required Whether the option is required
 	 * @returns A new CommandOption instance
 	 */
-	static boolean(
-		name: string,
+	static boolean<const N extends string, R extends boolean = false>(
+		name: N,
 		description: string,
-		required: boolean = false
-	): CommandOption {
-		return new CommandOption({
+		required: R = false as R
+	): CommandOption<N, boolean, R> {
+		return new CommandOption<N, boolean, R>({
 			name,
 			description,
 			type: ApplicationCommandOptionType.Boolean,
 			required,
 		});
 	}
+
+	/**
+	 * Creates a user option
+	 * @param name Option name
+	 * @param description Option description
+	 * @param required Whether the option is required
+	 * @returns A new CommandOption instance
+	 */
+	static user<const N extends string, R extends boolean = false>(
+		name: N,
+		description: string,
+		required: R = false as R
+	): CommandOption<N, User, R> {
+		return new CommandOption<N, User, R>({
+			name,
+			description,
+			type: ApplicationCommandOptionType.User,
+			required,
+		});
+	}
+
+	/**
+	 * Creates a channel option
+	 * @param name Option name
+	 * @param description Option description
+	 * @param required Whether the option is required
+	 * @param channel_types Channel types that can be picked (all types if empty)
+	 * @returns A new CommandOption instance
+	 */
+	static channel<const N extends string, R extends boolean = false>(
+		name: N,
+		description: string,
+		required: R = false as R,
+		channel_types: ChannelType[] = []
+	): CommandOption<N, ChannelOptionValue, R> {
+		return new CommandOption<N, ChannelOptionValue, R>({
+			name,
+			description,
+			type: ApplicationCommandOptionType.Channel,
+			required,
+			channel_types,
+		});
+	}
+
+	/**
+	 * Creates a role option
+	 * @param name Option name
+	 * @param description Option description
+	 * @param required Whether the option is required
+	 * @returns A new CommandOption instance
+	 */
+	static role<const N extends string, R extends boolean = false>(
+		name: N,
+		description: string,
+		required: R = false as R
+	): CommandOption<N, RoleOptionValue, R> {
+		return new CommandOption<N, RoleOptionValue, R>({
+			name,
+			description,
+			type: ApplicationCommandOptionType.Role,
+			required,
+		});
+	}
+
+	/**
+	 * Creates a mentionable (user or role) option
+	 * @param name Option name
+	 * @param description Option description
+	 * @param required Whether the option is required
+	 * @returns A new CommandOption instance
+	 */
+	static mentionable<const N extends string, R extends boolean = false>(
+		name: N,
+		description: string,
+		required: R = false as R
+	): CommandOption<N, MentionableOptionValue, R> {
+		return new CommandOption<N, MentionableOptionValue, R>({
+			name,
+			description,
+			type: ApplicationCommandOptionType.Mentionable,
+			required,
+		});
+	}
+
+	/**
+	 * Creates an attachment option
+	 * @param name Option name
+	 * @param description Option description
+	 * @param required Whether the option is required
+	 * @returns A new CommandOption instance
+	 */
+	static attachment<const N extends string, R extends boolean = false>(
+		name: N,
+		description: string,
+		required: R = false as R
+	): CommandOption<N, Attachment, R> {
+		return new CommandOption<N, Attachment, R>({
+			name,
+			description,
+			type: ApplicationCommandOptionType.Attachment,
+			required,
+		});
+	}
 }
@@ -0,0 +1,598 @@
+import {
+	ActionRowBuilder,
+	AnySelectMenuInteraction,
+	APIEmbed,
+	ButtonBuilder,
+	ButtonInteraction,
+	ButtonStyle,
+	CacheType,
+	Client,
+	EmbedBuilder,
+	MessageActionRowComponentBuilder,
+	ModalSubmitInteraction,
+	RepliableInteraction,
+} from 'discord.js';
+import {
+	ButtonCommand,
+	CommandList,
+	ModalSubmitCommand,
+	SelectMenuCommand,
+	SelectMenuSelection,
+} from './SimpleDiscordModels';
+import { AutoDefer } from './AutoDefer';
+import { InvocationContext } from './InvocationContext';
+import { InteractionSession, InteractionSessions } from './InteractionSessions';
+import { AnyModalField, ModalDefinition, Translator } from './ModalDefinition';
+import { PayloadOf } from '../utils/CustomIdCodec';
+
+/** Schema of the payload carried by the wizard components */
+const WIZARD_SCHEMA = {
+	session: 'string',
+	step: 'string',
+	action: 'string',
+} as const;
+
+/** Action of the back button */
+const BACK_ACTION = '$back';
+
+/** Action of the cancel button */
+const CANCEL_ACTION = '$cancel';
+
+/** Action of the button showing the modal of a step */
+const MODAL_ACTION = '$modal';
+
+/** Action passed to the step handler when the modal of the step is submitted */
+export const WIZARD_SUBMIT_ACTION = 'submit';
+
+/**
+ * Interaction on the components of a wizard step
+ */
+export type WizardInteraction =
+	| ButtonInteraction<CacheType>
+	| AnySelectMenuInteraction<CacheType>
+	| ModalSubmitInteraction<CacheType>;
+
+/**
+ * Where a wizard goes once a step has handled an interaction
+ */
+export type WizardTransition =
+	| { type: 'next' }
+	| { type: 'goTo'; step: string }
+	| { type: 'stay' }
+	| { type: 'finish' };
+
+/**
+ * Message shown for a wizard step
+ * The back and cancel buttons are added below the components of the step
+ */
+export interface WizardMessage {
+	/** Content of the message */
+	content?: string;
+
+	/** Embeds of the message */
+	embeds?: (EmbedBuilder | APIEmbed)[];
+
+	/** Components of the step, 4 rows at most */
+	components?: ActionRowBuilder<MessageActionRowComponentBuilder>[];
+}
+
+/**
+ * Tools given to a step to render its message
+ * @template S Type of the session state
+ */
+export interface WizardView<S> {
+	/** State of the session */
+	state: S;
+
+	/** Translator in the locale of the user */
+	t: Translator;
+
+	/**
+	 * Builds the customId of a component of the step (button or any select menu)
+	 * @param action The action passed to the step handler when the component is used
+	 * @returns The customId
+	 */
+	customId: (action: string) => string;
+
+	/**
+	 * Builds a button of the step
+	 * @param action The action passed to the step handler when the button is clicked
+	 * @param label The label of the button
+	 * @param style Optional style of the button (primary by default)
+	 * @returns The button
+	 */
+	button: (action: string, label: string, style?: ButtonStyle) => ButtonBuilder;
+
+	/**
+	 * Builds a button showing the modal of the step
+	 * @param label The label of the button
+	 * @param style Optional style of the button (primary by default)
+	 * @returns The button
+	 */
+	modalButton: (label: string, style?: ButtonStyle) => ButtonBuilder;
+}
+
+/**
+ * Interaction handled by a wizard step
+ * @template T Type of the service injected into commands
+ * @template S Type of the session state
+ */
+export interface WizardEvent<T, S> {
+	/** The button, select menu or modal submit interaction */
+	interaction: WizardInteraction;
+
+	/** The Discord client */
+	client: Client;
+
+	/** The service instance */
+	service: T;
+
+	/** State of the session, changes are kept for the next steps */
+	state: S;
+
+	/** Action of the component used, WIZARD_SUBMIT_ACTION for the modal of the step */
+	action: string;
+
+	/** Selected values and entities, for select menus only */
+	selection?: SelectMenuSelection;
+
+	/** Values parsed by the modal of the step, for modal submissions only */
+	fields?: Record<string, string | null>;
+
+	/** The invocation context */
+	context: InvocationContext;
+}
+
+/**
+ * Step of a wizard
+ * @template T Type of the service injected into commands
+ * @template S Type of the session state
+ */
+export interface WizardStep<T, S> {
+	/** Name of the step, used to go to it */
+	name: string;
+
+	/**
+	 * Renders the message of the step
+	 * @param view The state of the session and the tools building the components
+	 * @returns The message
+	 */
+	render: (view: WizardView<S>) => WizardMessage | Promise<WizardMessage>;
+
+	/** Optional modal shown by the modalButton of the step */
+	modal?: ModalDefinition<readonly AnyModalField[]>;
+
+	/**
+	 * Optional handler of the components of the step, the wizard goes to the next step without one
+	 * It updates the state and returns where to go, the message is then updated by the wizard.
+	 * Use deferUpdate() for long work, only reply on finish.
+	 * @param event The interaction handled
+	 * @returns Where to go, the next step if nothing is returned
+	 */
+	handle?: (
+		event: WizardEvent<T, S>
+	) => WizardTransition | void | Promise<WizardTransition | void>;
+}
+
+/**
+ * Options of a wizard start
+ */
+export interface WizardStartOptions {
+	/**
+	 * Whether the wizard is only visible to the invoking user
+	 */
+	ephemeral?: boolean;
+}
+
+/**
+ * Interface representing a wizard being filled by a user
+ */
+interface WizardSession<S> extends InteractionSession {
+	/** Name of the current step */
+	step: string;
+
+	/** Names of the previous steps, the last one being the step the back button leads to */
+	history: string[];
+
+	/** State shared between the steps */
+	state: S;
+
+	/** Translator in the locale of the user */
+	t: Translator;
+}
+
+/**
+ * Multi-step flow with named steps, per-user session state, back/cancel buttons and a timeout
+ * Steps are shown one after the other in a single message, their buttons, select menus and modals
+ * are routed through the CommandList like any other component.
+ * Register it to the CommandList, then start it from any command.
+ * @template T Type of the service injected into commands
+ * @template S Type of the session state
+ */
+export class Wizard<T, S extends object = Record<string, unknown>> {
+	/** Name of the wizard, must be unique among the wizards and commands */
+	name: string;
+
+	/** Steps of the wizard, in order */
+	steps: WizardStep<T, S>[];
+
+	/** Inactivity delay in ms after which the session ends */
+	timeout: number;
+
+	/** Sessions being filled, their message is closed on timeout */
+	private sessions: InteractionSessions<WizardSession<S>>;
+
+	/** Session ID of each user, a user fills one session of a wizard at a time */
+	private userSessions: Map<string, string> = new Map();
+
+	/** Commands routing the components of the steps to the wizard */
+	private commands: {
+		button: ButtonCommand<T, typeof WIZARD_SCHEMA>;
+		select: SelectMenuCommand<T, typeof WIZARD_SCHEMA>;
+		modal: ModalSubmitCommand<T, typeof WIZARD_SCHEMA>;
+	};
+
+	/**
+	 * Creates a new Wizard instance
+	 * @param init Optional partial initialization object
+	 */
+	constructor(init?: Partial<Wizard<T, S>>) {
+		this.name = init?.name ?? 'wizard';
+		this.steps = init?.steps ?? [];
+		this.timeout = init?.timeout ?? 5 * 60000;
+		this.sessions = new InteractionSessions({
+			name: `Wizard ${this.name}`,
+			timeout: () => this.timeout,
+			close: (session) => ({
+				content: session.t('wizard.expired'),
+				embeds: [],
+				components: [],
+			}),
+			onEnd: (session) => {
+				if (this.userSessions.get(session.userId) === session.id)
+					this.userSessions.delete(session.userId);
+			},
+		});
+
+		// Steps open modals, they can't be deferred upfront
+		const shared = {
+			autoDefer: AutoDefer.beforeDeadline(),
+			payloadSchema: WIZARD_SCHEMA,
+		};
+		this.commands = {
+			button: new ButtonCommand({
+				...shared,
+				name: `button_wizard_${this.name}`,
+				execute: (interaction, client, service, payload, _modal, context) =>
+					this.dispatch(interaction, client, service, payload, context),
+			}),
+			select: new SelectMenuCommand({
+				...shared,
+				name: `select_wizard_${this.name}`,
+				execute: (interaction, client, service, payload, _modal, context) =>
+					this.dispatch(interaction, client, service, payload, context, {
+						selection: context.args,
+					}),
+			}),
+			modal: new ModalSubmitCommand({
+				...shared,
+				name: `submit_wizard_${this.name}`,
+				execute: (interaction, client, service, payload, _modal, context) =>
+					this.dispatch(interaction, client, service, payload, context),
+			}),
+		};
+	}
+
+	/**
+	 * Creates a transition to the next step, finishing the wizard after the last one
+	 * @returns The transition
+	 */
+	static next(): WizardTransition {
+		return { type: 'next' };
+	}
+
+	/**
+	 * Creates a transition to a named step
+	 * @param step The name of the step
+	 * @returns The transition
+	 */
+	static goTo(step: string): WizardTransition {
+		return { type: 'goTo', step };
+	}
+
+	/**
+	 * Creates a transition staying on the current step, e.g. when a value is invalid
+	 * @returns The transition
+	 */
+	static stay(): WizardTransition {
+		return { type: 'stay' };
+	}
+
+	/**
+	 * Creates a transition finishing the wizard, the step handler replies to the interaction itself
+	 * @returns The transition
+	 */
+	static finish(): WizardTransition {
+		return { type: 'finish' };
+	}
+
+	/**
+	 * Registers the commands routing the components of the wizard
+	 * @param commandList The command list
+	 * @returns The command list for chaining
+	 */
+	register(commandList: CommandList<T>): CommandList<T> {
+		return commandList
+			.push(this.commands.button)
+			.push(this.commands.select)
+			.push(this.commands.modal);
+	}
+
+	/**
+	 * Starts the wizard for the user of an interaction, ending the session they had already started
+	 * @param interaction The interaction to reply to, answered with editReply if deferred
+	 * @param t Translator in the locale of the user, e.g. the `t` of the invocation context
+	 * @param state Initial state of the session
+	 * @param options Optional start options
+	 */
+	async start(
+		interaction: RepliableInteraction,
+		t: Translator,
+		state: S,
+		options: WizardStartOptions = {}
+	): Promise<void> {
+		const first = this.steps[0];
+		if (!first) throw new Error(`Wizard ${this.name} has no step`);
+
+		const previous = this.userSessions.get(interaction.user.id);
+		if (previous) this.sessions.end(previous);
+
+		const session = this.sessions.create({
+			userId: interaction.user.id,
+			step: first.name,
+			history: [],
+			state,
+			t,
+			interaction,
+		});
+		this.userSessions.set(session.userId, session.id);
+
+		const message = await this.render(session);
+		if (interaction.deferred || interaction.replied) {
+			await interaction.editReply(message);
+		} else {
+			await interaction.reply({ ...message, ephemeral: options.ephemeral });
+		}
+	}
+
+	/**
+	 * Handles an interaction on the components of a step
+	 * @param interaction The button, select menu or modal submit interaction
+	 * @param client The Discord client
+	 * @param service The service instance
+	 * @param payload The session, step and action carried by the component
+	 * @param context The invocation context
+	 * @param input Optional selection of a select menu
+	 */
+	private dispatch = async (
+		interaction: WizardInteraction,
+		client: Client,
+		service: T,
+		payload: PayloadOf<typeof WIZARD_SCHEMA>,
+		context: InvocationContext<unknown>,
+		input: { selection?: SelectMenuSelection } = {}
+	): Promise<void> => {
+		const session = this.sessions.get(payload.session);
+		// Components of a previous step can't be used once the wizard has moved on
+		if (!session || session.step !== payload.step) {
+			await this.replyEphemeral(
+				interaction,
+				context.t('error.discord.interaction_expired')
+			);
+			return;
+		}
+		if (interaction.user.id !== session.userId) {
+			await this.replyEphemeral(
+				interaction,
+				context.t('error.discord.wizard_not_owner')
+			);
+			return;
+		}
+
+		const step = this.getStep(session.step);
+		session.t = context.t;
+		session.interaction = interaction;
+		this.sessions.touch(session.id);
+
+		switch (payload.action) {
+			case BACK_ACTION:
+				session.step = session.history.pop() ?? session.step;
+				await this.show(interaction, await this.render(session));
+				return;
+			case CANCEL_ACTION:
+				this.sessions.end(session.id);
+				await this.show(interaction, {
+					content: context.t('wizard.cancelled'),
+					embeds: [],
+					components: [],
+				});
+				return;
+			case MODAL_ACTION:
+				if (step.modal && interaction.isButton())
+					await interaction.showModal(
+						step.modal.build(
+							this.buildCustomId(session, WIZARD_SUBMIT_ACTION),
+							context.t
+						)
+					);
+				return;
+		}
+
+		let fields: Record<string, string | null> | undefined;
+		if (interaction.isModalSubmit() && step.modal) {
+			const { values, errors } = step.modal.parse(
+				interaction.fields,
+				context.t
+			);
+			if (errors.length > 0) {
+				await this.replyEphemeral(interaction, errors.join('\n'));
+				return;
+			}
+			fields = values as Record<string, string | null>;
+		}
+
+		const transition =
+			(await step.handle?.({
+				interaction,
+				client,
+				service,
+				state: session.state,
+				action: payload.action,
+				selection: input.selection,
+				fields,
+				context: context as InvocationContext,
+			})) ?? Wizard.next();
+
+		const next = this.getNextStep(session, transition);
+		if (!next) {
+			this.sessions.end(session.id);
+			// Remove the components unless the step has already replied
+			if (!interaction.replied && !interaction.deferred)
+				await this.show(interaction, { components: [] });
+			return;
+		}
+		if (next !== session.step) {
+			session.history.push(session.step);
+			session.step = next;
+		}
+		await this.show(interaction, await this.render(session));
+	};
+
+	/**
+	 * Gets the step a transition leads to
+	 * @param session The wizard session
+	 * @param transition The transition returned by the step handler
+	 * @returns The name of the step, or undefined if the wizard is finished
+	 * @throws Error if the transition leads to an unknown step
+	 */
+	private getNextStep(
+		session: WizardSession<S>,
+		transition: WizardTransition
+	): string | undefined {
+		switch (transition.type) {
+			case 'next': {
+				const index = this.steps.findIndex(
+					(step) => step.name === session.step
+				);
+				return this.steps[index + 1]?.name;
+			}
+			case 'goTo':
+				return this.getStep(transition.step).name;
+			case 'stay':
+				return session.step;
+			case 'finish':
+				return undefined;
+		}
+	}
+
+	/**
+	 * Gets a step by name
+	 * @param name The name of the step
+	 * @returns The step
+	 * @throws Error if the wizard has no step with this name
+	 */
+	private getStep(name: string): WizardStep<T, S> {
+		const step = this.steps.find((value) => value.name === name);
+		if (!step) throw new Error(`Wizard ${this.name} has no step ${name}`);
+		return step;
+	}
+
+	/**
+	 * Updates the message of the wizard with the response of an interaction
+	 * @param interaction The interaction on the message
+	 * @param message The new message
+	 */
+	private async show(
+		interaction: WizardInteraction,
+		message: WizardMessage
+	): Promise<void> {
+		if (interaction.deferred || interaction.replied) {
+			await interaction.editReply(message);
+		} else if (interaction.isModalSubmit() && !interaction.isFromMessage()) {
+			await interaction.reply(message);
+		} else {
+			await (
+				interaction as Exclude<WizardInteraction, ModalSubmitInteraction>
+			).update(message);
+		}
+	}
+
+	/**
+	 * Replies to an interaction with a message only visible to its user
+	 * @param interaction The interaction to reply to
+	 * @param content The message content
+	 */
+	private async replyEphemeral(
+		interaction: WizardInteraction,
+		content: string
+	): Promise<void> {
+		if (interaction.deferred || interaction.replied) {
+			await interaction.followUp({ content, ephemeral: true });
+		} else {
+			await interaction.reply({ content, ephemeral: true });
+		}
+	}
+
+	/**
+	 * Renders the current step of a session with the back and cancel buttons
+	 * @param session The wizard session
+	 * @returns The message content, embeds and components
+	 */
+	private async render(session: WizardSession<S>): Promise<{
+		content: string;
+		embeds: (EmbedBuilder | APIEmbed)[];
+		components: ActionRowBuilder<MessageActionRowComponentBuilder>[];
+	}> {
+		const button = (action: string, label: string, style?: ButtonStyle) =>
+			new ButtonBuilder()
+				.setCustomId(this.buildCustomId(session, action))
+				.setLabel(label)
+				.setStyle(style ?? ButtonStyle.Primary);
+		const message = await this.getStep(session.step).render({
+			state: session.state,
+			t: session.t,
+			customId: (action) => this.buildCustomId(session, action),
+			button,
+			modalButton: (label, style) => button(MODAL_ACTION, label, style),
+		});
+
+		const navigation = new ActionRowBuilder<MessageActionRowComponentBuilder>();
+		if (session.history.length > 0)
+			navigation.addComponents(
+				button(BACK_ACTION, session.t('wizard.back'), ButtonStyle.Secondary)
+			);
+		navigation.addComponents(
+			button(CANCEL_ACTION, session.t('wizard.cancel'), ButtonStyle.Danger)
+		);
+		return {
+			content: message.content ?? '',
+			embeds: message.embeds ?? [],
+			components: [...(message.components ?? []), navigation],
+		};
+	}
+
+	/**
+	 * Builds the customId of a component of the current step
+	 * The same prefix is routed to the button, select menu and modal commands of the wizard
+	 * @param session The wizard session
+	 * @param action The action of the component
+	 * @returns The customId
+	 */
+	private buildCustomId(session: WizardSession<S>, action: string): string {
+		return this.commands.button.buildCustomId({
+			session: session.id,
+			step: session.step,
+			action,
+		});
+	}
+}
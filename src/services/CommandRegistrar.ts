@@ -0,0 +1,153 @@
+import { REST, Routes } from 'discord.js';
+import {
+	CommandDefinition,
+	ScopedCommandDefinitions,
+} from '../model/CommandDefinition';
+import {
+	CommandDiff,
+	diffCommands,
+	hasChanges,
+	RegisteredCommand,
+	summarizeDiff,
+} from '../utils/CommandDiff';
+import { Loggers } from './LoggerManager';
+
+/**
+ * Synchronizes command definitions with Discord
+ * Fetches the registered commands and only creates, updates or deletes what changed
+ * Registered commands that are no longer declared are only deleted when pruning is enabled
+ */
+export class CommandRegistrar {
+	/** REST client authenticated with the bot token */
+	private rest: REST;
+
+	/** Discord application ID */
+	private applicationId: string;
+
+	/** Whether registered commands that are no longer declared are deleted */
+	private prune: boolean;
+
+	/**
+	 * Creates a new CommandRegistrar instance
+	 * @param rest REST client authenticated with the bot token
+	 * @param applicationId Discord application ID
+	 * @param prune Whether registered commands that are no longer declared are deleted (false by default)
+	 */
+	constructor(rest: REST, applicationId: string, prune: boolean = false) {
+		this.rest = rest;
+		this.applicationId = applicationId;
+		this.prune = prune;
+	}
+
+	/**
+	 * Synchronizes global commands and the commands of every guild listed
+	 * Guilds that are no longer listed keep their previously registered commands
+	 * @param definitions Command definitions grouped by scope
+	 * @returns The diff applied for each scope, keyed by guild ID ('global' for global commands)
+	 */
+	public async syncAll(
+		definitions: ScopedCommandDefinitions
+	): Promise<Record<string, CommandDiff>> {
+		const res: Record<string, CommandDiff> = {};
+		res.global = await this.sync(definitions.global);
+		for (const [guildId, commands] of Object.entries(definitions.guilds)) {
+			res[guildId] = await this.sync(commands, guildId);
+		}
+		return res;
+	}
+
+	/**
+	 * Synchronizes the commands of a single scope
+	 * @param definitions Commands that should be registered
+	 * @param guildId Guild to synchronize, global commands if not provided
+	 * @returns The diff that was applied
+	 */
+	public async sync(
+		definitions: CommandDefinition[],
+		guildId?: string
+	): Promise<CommandDiff> {
+		const scopeName = this.scopeName(guildId);
+		// Localizations are only returned in full when asked for
+		const current = (await this.rest.get(this.commandsRoute(guildId), {
+			query: new URLSearchParams({ with_localizations: 'true' }),
+		})) as RegisteredCommand[];
+		const diff = diffCommands(current, definitions, guildId !== undefined);
+
+		// Commands may be registered by another deployment of the application
+		if (!this.prune && diff.deleted.length > 0) {
+			Loggers.get().warn(
+				`Bot : Commands (${scopeName}) ${diff.deleted.map((c) => c.name).join(', ')} are no longer declared, enable pruning to delete them`
+			);
+			diff.deleted = [];
+		}
+
+		if (!hasChanges(diff)) {
+			Loggers.get().info(
+				`Bot : Commands (${scopeName}) are up to date, ${summarizeDiff(diff)}`
+			);
+			return diff;
+		}
+
+		await this.apply(diff, guildId);
+		Loggers.get().info(
+			`Bot : Commands (${scopeName}) synchronized, ${summarizeDiff(diff)}`
+		);
+		return diff;
+	}
+
+	/**
+	 * Applies a diff, creating, updating and deleting commands
+	 * @param diff The diff to apply
+	 * @param guildId Guild the diff applies to, global commands if not provided
+	 */
+	public async apply(diff: CommandDiff, guildId?: string): Promise<void> {
+		for (const definition of diff.created) {
+			await this.rest.post(this.commandsRoute(guildId), { body: definition });
+		}
+		for (const { id, definition } of diff.updated) {
+			if (!id) continue;
+			await this.rest.patch(this.commandRoute(id, guildId), {
+				body: definition,
+			});
+		}
+		for (const { id, name } of diff.deleted) {
+			if (!id) continue;
+			Loggers.get().info(
+				`Bot : Deleting command ${name} (${this.scopeName(guildId)})`
+			);
+			await this.rest.delete(this.commandRoute(id, guildId));
+		}
+	}
+
+	/**
+	 * Gets the name of a scope used in logs
+	 * @param guildId Guild ID, global commands if not provided
+	 * @returns The scope name
+	 */
+	private scopeName(guildId?: string): string {
+		return guildId ? `guild ${guildId}` : 'global';
+	}
+
+	/**
+	 * Gets the route listing the commands of a scope
+	 * @param guildId Guild ID, global commands if not provided
+	 * @returns The REST route
+	 */
+	private commandsRoute(guildId?: string): `/${string}` {
+		return guildId
+			? Routes.applicationGuildCommands(this.applicationId, guildId)
+			: Routes.applicationCommands(this.applicationId);
+	}
+
+	/**
+	 * Gets the route of a single command
+	 * @param commandId The registered command ID
+	 * @param guildId Guild ID, global command if not provided
+	 * @returns The REST route
+	 */
+	private commandRoute(commandId: string, guildId?: string): `/${string}` {
+		return guildId
+			? Routes.applicationGuildCommand(this.applicationId, guildId, commandId)
+			: Routes.applicationCommand(this.applicationId, commandId);
+	}
+}
@@ -0,0 +1,97 @@
+import { BaseInteraction } from 'discord.js';
+import { Cooldown, CooldownBucket } from '../model/Cooldown';
+import { TtlMap } from '../utils/TtlMap';
+
+/**
+ * Tracks the recent uses of commands to enforce their cooldowns
+ * Buckets expire with their last use, so they don't pile up over long uptimes
+ */
+export class CooldownManager {
+	/** Timestamps of the uses still within their cooldown, keyed by command and bucket */
+	private entries: TtlMap<number[]>;
+
+	/**
+	 * Creates a new CooldownManager instance
+	 * @param sweepInterval Interval between sweeps of expired entries in ms
+	 */
+	constructor(sweepInterval: number = 60000) {
+		this.entries = new TtlMap(sweepInterval);
+	}
+
+	/**
+	 * Gets the key of the bucket an interaction falls in
+	 * @param commandName Full name of the command
+	 * @param cooldown The cooldown of the command
+	 * @param interaction The Discord interaction
+	 * @returns The bucket key
+	 */
+	static getKey(
+		commandName: string,
+		cooldown: Cooldown,
+		interaction: BaseInteraction
+	): string {
+		const userId = interaction.user.id;
+		switch (cooldown.bucket) {
+			case CooldownBucket.GUILD:
+				return `${commandName}:guild:${interaction.guildId ?? `dm-${userId}`}`;
+			case CooldownBucket.CHANNEL:
+				return `${commandName}:channel:${interaction.channelId ?? `dm-${userId}`}`;
+			case CooldownBucket.GLOBAL:
+				return `${commandName}:global`;
+			case CooldownBucket.USER:
+			default:
+				return `${commandName}:user:${userId}`;
+		}
+	}
+
+	/**
+	 * Records a use if the cooldown allows it
+	 * @param key The bucket key
+	 * @param cooldown The cooldown to enforce
+	 * @returns 0 if the use is allowed, the time to wait in ms otherwise
+	 */
+	consume(key: string, cooldown: Cooldown): number {
+		const now = Date.now();
+		const uses = this.getUses(key, cooldown, now);
+		if (uses.length >= cooldown.burst)
+			return uses[0]! + cooldown.duration - now;
+
+		uses.push(now);
+		this.entries.set(key, uses, cooldown.duration);
+		return 0;
+	}
+
+	/**
+	 * Gives back the last use of a bucket, e.g. when the command was denied or failed
+	 * @param key The bucket key
+	 * @param cooldown The cooldown of the bucket
+	 */
+	refund(key: string, cooldown: Cooldown): void {
+		const now = Date.now();
+		const uses = this.getUses(key, cooldown, now);
+		uses.pop();
+		const last = uses[uses.length - 1];
+		if (last === undefined) this.entries.delete(key);
+		else this.entries.set(key, uses, last + cooldown.duration - now);
+	}
+
+	/**
+	 * Gets the uses of a bucket still within their cooldown
+	 * @param key The bucket key
+	 * @param cooldown The cooldown of the bucket
+	 * @param now The current time
+	 * @returns The timestamps of the uses, oldest first
+	 */
+	private getUses(key: string, cooldown: Cooldown, now: number): number[] {
+		return (this.entries.get(key) ?? []).filter(
+			(timestamp) => timestamp + cooldown.duration > now
+		);
+	}
+
+	/**
+	 * Stops sweeping and clears every entry
+	 */
+	dispose(): void {
+		this.entries.dispose();
+	}
+}
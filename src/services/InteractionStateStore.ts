@@ -0,0 +1,121 @@
+import { randomBytes } from 'crypto';
+import { Loggers } from './LoggerManager';
+import { TtlMap } from '../utils/TtlMap';
+
+/**
+ * Storage backend of an InteractionStateStore
+ * Implement it to keep interaction states in a shared storage (Redis, database, etc.)
+ */
+export interface StateStorage {
+	/**
+	 * Gets a stored value
+	 * @param token The token the value is stored under
+	 * @returns The value, or undefined if missing or expired
+	 */
+	get(token: string): Promise<unknown>;
+
+	/**
+	 * Stores a value
+	 * @param token The token to store the value under
+	 * @param value The value to store
+	 * @param ttl Time to live in ms
+	 */
+	set(token: string, value: unknown, ttl: number): Promise<void>;
+
+	/**
+	 * Deletes a stored value
+	 * @param token The token the value is stored under
+	 */
+	delete(token: string): Promise<void>;
+}
+
+/**
+ * In-memory StateStorage, used by default
+ * Expired entries are swept periodically so they don't pile up
+ */
+export class MemoryStateStorage implements StateStorage {
+	/** Stored values */
+	private entries: TtlMap<unknown>;
+
+	/**
+	 * Creates a new MemoryStateStorage instance
+	 * @param sweepInterval Interval between sweeps of expired entries in ms
+	 */
+	constructor(sweepInterval: number = 60000) {
+		this.entries = new TtlMap(sweepInterval);
+	}
+
+	public async get(token: string): Promise<unknown> {
+		return this.entries.get(token);
+	}
+
+	public async set(token: string, value: unknown, ttl: number): Promise<void> {
+		this.entries.set(token, value, ttl);
+	}
+
+	public async delete(token: string): Promise<void> {
+		this.entries.delete(token);
+	}
+
+	/**
+	 * Stops sweeping and clears every entry
+	 */
+	public dispose(): void {
+		this.entries.dispose();
+	}
+}
+
+/**
+ * Keeps interaction payloads server-side, keyed by a short token
+ * Used when a payload doesn't fit in the 100 characters of a customId
+ */
+export class InteractionStateStore {
+	/** Storage backend */
+	private storage: StateStorage;
+
+	/** Time to live of stored payloads in ms */
+	private defaultTtl: number;
+
+	/**
+	 * Creates a new InteractionStateStore instance
+	 * @param storage Storage backend (in-memory by default)
+	 * @param defaultTtl Time to live of stored payloads in ms (15 minutes by default, like interaction tokens)
+	 */
+	constructor(
+		storage: StateStorage = new MemoryStateStorage(),
+		defaultTtl: number = 15 * 60000
+	) {
+		this.storage = storage;
+		this.defaultTtl = defaultTtl;
+	}
+
+	/**
+	 * Stores a payload
+	 * @param payload The payload to store
+	 * @param ttl Optional time to live in ms, overriding the default one
+	 * @returns The token the payload is stored under
+	 */
+	public async put(payload: unknown, ttl?: number): Promise<string> {
+		const token = randomBytes(9).toString('base64url');
+		await this.storage.set(token, payload, ttl ?? this.defaultTtl);
+		Loggers.get().info(`InteractionStateStore : STORED payload "${token}"`);
+		return token;
+	}
+
+	/**
+	 * Gets a stored payload
+	 * @param token The token the payload is stored under
+	 * @returns The payload, or undefined if missing or expired
+	 */
+	public get(token: string): Promise<unknown> {
+		return this.storage.get(token);
+	}
+
+	/**
+	 * Deletes a stored payload, e.g. once a flow is completed
+	 * @param token The token the payload is stored under
+	 */
+	public delete(token: string): Promise<void> {
+		return this.storage.delete(token);
+	}
+}
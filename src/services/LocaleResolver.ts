@@ -0,0 +1,119 @@
+import { BaseInteraction } from 'discord.js';
+import { LocaleSource } from '../model/LocaleSource';
+import { Loggers } from './LoggerManager';
+
+/**
+ * Function returning the locale chosen for a guild, if any
+ */
+export type GuildLocaleOverride = (
+	guildId: string
+) => string | undefined | Promise<string | undefined>;
+
+/** Order in which locale sources are tried when none is configured */
+export const DEFAULT_LOCALE_CHAIN: LocaleSource[] = [
+	LocaleSource.USER,
+	LocaleSource.GUILD,
+	LocaleSource.GUILD_OVERRIDE,
+	LocaleSource.DEFAULT,
+];
+
+/**
+ * Resolves the locale of each interaction from a chain of sources
+ * The first source giving an available locale wins, the default locale is used as last resort
+ */
+export class LocaleResolver {
+	/** Locales supported by the bot, in lowercase */
+	private availableLocales: string[];
+
+	/** Locale used when no source gives an available locale */
+	private defaultLocale: string;
+
+	/** Order in which sources are tried */
+	private chain: LocaleSource[];
+
+	/** Optional per-guild locale override */
+	private guildOverride?: GuildLocaleOverride;
+
+	/**
+	 * Creates a new LocaleResolver instance
+	 * @param availableLocales Locales supported by the bot
+	 * @param defaultLocale Locale used when no source gives an available locale
+	 * @param chain Order in which sources are tried
+	 * @param guildOverride Optional per-guild locale override
+	 */
+	constructor(
+		availableLocales: string[],
+		defaultLocale: string,
+		chain: LocaleSource[] = DEFAULT_LOCALE_CHAIN,
+		guildOverride?: GuildLocaleOverride
+	) {
+		this.availableLocales = availableLocales.map((locale) =>
+			locale.toLowerCase()
+		);
+		this.defaultLocale = defaultLocale.toLowerCase();
+		this.chain = chain;
+		this.guildOverride = guildOverride;
+	}
+
+	/**
+	 * Resolves the locale of an interaction
+	 * @param interaction The Discord interaction
+	 * @returns The locale to use for this interaction
+	 */
+	async resolve(interaction: BaseInteraction): Promise<string> {
+		for (const source of this.chain) {
+			const locale = this.match(await this.getCandidate(source, interaction));
+			if (locale) return locale;
+		}
+		return this.defaultLocale;
+	}
+
+	/**
+	 * Finds the available locale matching a Discord locale
+	 * Falls back to the base language (e.g. `fr` for `fr-FR`)
+	 * @param locale The locale to match
+	 * @returns The matching available locale, or undefined if none
+	 */
+	match(locale?: string | null): string | undefined {
+		if (!locale) return undefined;
+		const lowerCased = locale.toLowerCase();
+		if (this.availableLocales.includes(lowerCased)) return lowerCased;
+
+		const language = lowerCased.split('-')[0]!;
+		return this.availableLocales.find(
+			(available) =>
+				available === language || available.startsWith(`${language}-`)
+		);
+	}
+
+	/**
+	 * Gets the locale given by a source
+	 * @param source The source to query
+	 * @param interaction The Discord interaction
+	 * @returns The locale, or undefined if the source has none for this interaction
+	 */
+	private async getCandidate(
+		source: LocaleSource,
+		interaction: BaseInteraction
+	): Promise<string | undefined> {
+		switch (source) {
+			case LocaleSource.USER:
+				return interaction.locale;
+			case LocaleSource.GUILD:
+				return interaction.guildLocale ?? undefined;
+			case LocaleSource.GUILD_OVERRIDE:
+				if (!interaction.guildId || !this.guildOverride) return undefined;
+				try {
+					return await this.guildOverride(interaction.guildId);
+				} catch (e: any) {
+					Loggers.get().error(
+						`LocaleResolver : guild locale override failed for ${interaction.guildId}: ${e.message}`
+					);
+					return undefined;
+				}
+			case LocaleSource.DEFAULT:
+			default:
+				return this.defaultLocale;
+		}
+	}
+}
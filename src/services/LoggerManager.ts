@@ -68,6 +68,25 @@ class LoggerService {
 
 		return this.loggers.get(id)!;
 	}
+
+	/**
+	 * Closes every logger, waiting for their transports to flush
+	 * Loggers requested afterwards are created again
+	 * @returns Promise resolving once every logger is closed
+	 */
+	public async close(): Promise<void> {
+		const loggers = [...this.loggers.values()];
+		this.loggers.clear();
+		await Promise.all(
+			loggers.map(
+				(logger) =>
+					new Promise<void>((resolve) => {
+						logger.once('finish', () => resolve());
+						logger.end();
+					})
+			)
+		);
+	}
 }
 
 /**
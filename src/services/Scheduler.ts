@@ -0,0 +1,235 @@
+import { Client, Events, Guild } from 'discord.js';
+import { ScheduledJob } from '../model/ScheduledJob';
+import { Clock, systemClock } from '../utils/Clock';
+import { Loggers } from './LoggerManager';
+
+/** Longest delay accepted by Node.js timers, longer waits are split */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Interface representing a running instance of a job, one per guild for per-guild jobs
+ */
+interface JobInstance<T> {
+	/** The scheduled job */
+	job: ScheduledJob<T>;
+
+	/** ID of the guild of the instance, for per-guild jobs only */
+	guildId?: string;
+
+	/** Time of the next run, in ms since the epoch */
+	nextRun: number;
+
+	/** Timer of the next run */
+	timer?: unknown;
+
+	/** Whether a run is in progress */
+	running: boolean;
+}
+
+/**
+ * Runs scheduled jobs on cron expressions or intervals, injecting the client and the service
+ * Runs of the same instance never overlap, failures are logged and don't stop the job.
+ * @template T Type of the service injected into jobs
+ */
+export class Scheduler<T> {
+	/** Jobs run by the scheduler */
+	private jobs: ScheduledJob<T>[] = [];
+
+	/** Running instances, keyed by job name and guild ID */
+	private instances: Map<string, JobInstance<T>> = new Map();
+
+	/** Client and service injected into the jobs, set once started */
+	private runtime?: { client: Client; service: T };
+
+	/** Runs in progress */
+	private inFlight: Set<Promise<void>> = new Set();
+
+	/** Clock used for the schedules */
+	private clock: Clock;
+
+	/**
+	 * Creates a new Scheduler instance
+	 * @param clock Clock used for the schedules, replaceable to test jobs deterministically
+	 */
+	constructor(clock: Clock = systemClock) {
+		this.clock = clock;
+	}
+
+	/**
+	 * Adds jobs, started right away if the scheduler is already running
+	 * @param jobs The jobs to add
+	 * @returns The Scheduler instance for chaining
+	 * @throws Error if a job has an invalid schedule or its name is already used
+	 */
+	add = (...jobs: ScheduledJob<T>[]): Scheduler<T> => {
+		for (const job of jobs) {
+			job.validate();
+			if (this.jobs.some((value) => value.name === job.name))
+				throw new Error(`A job named ${job.name} is already scheduled`);
+			this.jobs.push(job);
+			if (this.runtime) this.startJob(job);
+		}
+		return this;
+	};
+
+	/**
+	 * Starts every job, per-guild jobs following the guilds the bot joins and leaves
+	 * @param client The Discord client, ready
+	 * @param service The service instance
+	 */
+	start = (client: Client, service: T): void => {
+		if (this.runtime) return;
+		this.runtime = { client, service };
+		client.on(Events.GuildCreate, this.onGuildCreate);
+		client.on(Events.GuildDelete, this.onGuildDelete);
+		for (const job of this.jobs) this.startJob(job);
+		Loggers.get().info(`Scheduler : Started ${this.jobs.length} job(s)`);
+	};
+
+	/**
+	 * Stops every job, waiting for the runs in progress
+	 * @returns Promise resolving once the runs in progress are over
+	 */
+	stop = async (): Promise<void> => {
+		if (!this.runtime) return;
+		this.runtime.client.off(Events.GuildCreate, this.onGuildCreate);
+		this.runtime.client.off(Events.GuildDelete, this.onGuildDelete);
+		this.runtime = undefined;
+		for (const instance of this.instances.values())
+			this.clock.clearTimeout(instance.timer);
+		this.instances.clear();
+		await Promise.allSettled([...this.inFlight]);
+	};
+
+	/**
+	 * Starts the instances of a job
+	 * @param job The job to start
+	 */
+	private startJob(job: ScheduledJob<T>): void {
+		if (!job.perGuild) {
+			this.startInstance(job);
+			return;
+		}
+		for (const guildId of this.runtime!.client.guilds.cache.keys())
+			this.startInstance(job, guildId);
+	}
+
+	/**
+	 * Starts an instance of a job
+	 * @param job The job
+	 * @param guildId The guild of the instance, for per-guild jobs only
+	 */
+	private startInstance(job: ScheduledJob<T>, guildId?: string): void {
+		const key = Scheduler.getKey(job.name, guildId);
+		if (this.instances.has(key)) return;
+
+		const now = this.clock.now();
+		const instance: JobInstance<T> = {
+			job,
+			guildId,
+			nextRun: job.runOnStart ? now : job.getNextRun(now),
+			running: false,
+		};
+		this.instances.set(key, instance);
+		this.schedule(instance);
+	}
+
+	/**
+	 * Sets the timer of the next run of an instance
+	 * @param instance The job instance
+	 */
+	private schedule(instance: JobInstance<T>): void {
+		const delay = Math.max(instance.nextRun - this.clock.now(), 0);
+		instance.timer = this.clock.setTimeout(
+			() => this.onTimer(instance),
+			Math.min(delay, MAX_TIMER_DELAY)
+		);
+	}
+
+	/**
+	 * Runs an instance when its time has come, then schedules its next run
+	 * @param instance The job instance
+	 */
+	private onTimer(instance: JobInstance<T>): void {
+		const key = Scheduler.getKey(instance.job.name, instance.guildId);
+		if (this.instances.get(key) !== instance) return;
+
+		const now = this.clock.now();
+		// Delays longer than a timer allows are waited in several times
+		if (now < instance.nextRun) {
+			this.schedule(instance);
+			return;
+		}
+		instance.nextRun = instance.job.getNextRun(now);
+		this.schedule(instance);
+		this.run(instance);
+	}
+
+	/**
+	 * Runs an instance unless its previous run is still in progress
+	 * @param instance The job instance
+	 */
+	private run(instance: JobInstance<T>): void {
+		const name = Scheduler.getKey(instance.job.name, instance.guildId);
+		if (instance.running) {
+			Loggers.get().warn(
+				`Scheduler : Job ${name} skipped, its previous run is still in progress`
+			);
+			return;
+		}
+		const { client, service } = this.runtime!;
+		const guild = instance.guildId
+			? client.guilds.cache.get(instance.guildId)
+			: undefined;
+		if (instance.guildId && !guild) return;
+
+		instance.running = true;
+		const promise = (async () => {
+			try {
+				await instance.job.execute(client, service, guild);
+			} catch (e: any) {
+				Loggers.get().error(
+					`Scheduler : Job ${name} failed: ${e.message}`,
+					e.stack
+				);
+			} finally {
+				instance.running = false;
+			}
+		})();
+		this.inFlight.add(promise);
+		void promise.finally(() => this.inFlight.delete(promise));
+	}
+
+	/**
+	 * Starts the per-guild jobs of a guild the bot joined
+	 * @param guild The guild
+	 */
+	private onGuildCreate = (guild: Guild): void => {
+		for (const job of this.jobs)
+			if (job.perGuild) this.startInstance(job, guild.id);
+	};
+
+	/**
+	 * Stops the per-guild jobs of a guild the bot left
+	 * @param guild The guild
+	 */
+	private onGuildDelete = (guild: Guild): void => {
+		for (const job of this.jobs) {
+			const key = Scheduler.getKey(job.name, guild.id);
+			const instance = this.instances.get(key);
+			if (!instance) continue;
+			this.clock.clearTimeout(instance.timer);
+			this.instances.delete(key);
+		}
+	};
+
+	/**
+	 * Gets the key of a job instance
+	 * @param name The name of the job
+	 * @param guildId The guild of the instance, for per-guild jobs only
+	 * @returns The key, also used in logs
+	 */
+	private static getKey(name: string, guildId?: string): string {
+		return guildId ? `${name}@${guildId}` : name;
+	}
+}
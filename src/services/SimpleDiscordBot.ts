@@ -1,9 +1,43 @@
-import { Client, Events, REST, Routes } from 'discord.js';
+import {
+	ApplicationCommandType,
+	BaseInteraction,
+	Client,
+	ClientEvents,
+	Events,
+	GatewayIntentBits,
+	Message,
+	Partials,
+	REST,
+} from 'discord.js';
 import { CommandList } from '../model/SimpleDiscordModels.js';
+import { AnyEventHandler, EventHandler } from '../model/EventHandler.js';
+import { PrefixCommandInteraction } from '../model/PrefixCommandInteraction.js';
 import { LocaleError } from '../model/LocaleError.js';
+import { ScheduledJob } from '../model/ScheduledJob.js';
+import { LifecycleHooks } from '../model/LifecycleHooks.js';
+import { MainApi } from '../api/MainApi.js';
 import { Loggers } from './LoggerManager.js';
 import { SimpleDiscordBotConfig } from '../model/SimpleDiscordBotConfig.js';
 import { I18n } from 'i18n';
+import { CommandRegistrar } from './CommandRegistrar.js';
+import { LocaleResolver } from './LocaleResolver.js';
+import { Scheduler } from './Scheduler.js';
+import { CommandLocalizer, createI18n } from '../utils/CommandLocalizer.js';
+import {
+	formatLocaleIssues,
+	validateLocales,
+} from '../utils/LocaleValidator.js';
+import {
+	decodeCustomId,
+	getCustomIdPrefix,
+	getCustomIdStateToken,
+} from '../utils/CustomIdCodec.js';
+import { systemClock } from '../utils/Clock.js';
+import {
+	parsePrefixOptions,
+	stripPrefix,
+	tokenize,
+} from '../utils/PrefixCommandParser.js';
 
 /**
  * Main Discord bot class that wraps Discord.js functionality
@@ -23,13 +57,58 @@ export class SimpleDiscordBot<T> {
 	/** Namespaced i18n instance to avoid conflicts with consuming applications */
 	private i18nInstance: I18n;
 
+	/** Resolves the locale of each interaction */
+	private localeResolver: LocaleResolver;
+
+	/** Runs the scheduled jobs once the client is ready */
+	private scheduler: Scheduler<T>;
+
+	/** Command list the bot was started with */
+	private commandList?: CommandList<T>;
+
+	/** API clients disposed when the bot stops */
+	private apis: MainApi[] = [];
+
+	/** Interactions and prefix commands in progress */
+	private inFlight: Set<Promise<void>> = new Set();
+
+	/** Shutdown in progress, set once stop() has been called */
+	private stopping?: Promise<void>;
+
 	/**
 	 * Registers slash commands with Discord and sets up event handlers
 	 * @param commandList The list of commands to register
+	 * @param eventHandlers The handlers of the other gateway events
 	 * @private
 	 */
-	private register = async (commandList: CommandList<T>) => {
-		this._client = new Client({ intents: this._config.intents });
+	private register = async (
+		commandList: CommandList<T>,
+		eventHandlers: AnyEventHandler<T>[]
+	) => {
+		// DM channels are only known from the interaction payload, needed to resolve the interaction context
+		const intents = this._config.prefix_commands
+			? [
+					...this._config.intents,
+					GatewayIntentBits.GuildMessages,
+					GatewayIntentBits.DirectMessages,
+					GatewayIntentBits.MessageContent,
+				]
+			: this._config.intents;
+		this._client = new Client({
+			intents: [...new Set(intents)],
+			partials: [Partials.Channel],
+		});
+		this.commandList = commandList;
+		const localizer = new CommandLocalizer(
+			this.i18nInstance,
+			this._config.available_locale,
+			this._config.locale.toLowerCase()
+		);
+		commandList
+			.setI18n(this.i18nInstance)
+			.setLocalizer(localizer)
+			.setOwnerIds(this._config.owner_ids ?? [])
+			.setAutoDefer(this._config.auto_defer);
 
 		if (!this._config.discord_token)
 			throw LocaleError.withCustomI18n(
@@ -46,51 +125,290 @@ export class SimpleDiscordBot<T> {
 			this._config.discord_token
 		);
 		try {
-			await rest.put(Routes.applicationCommands(this._config.discord_id), {
-				body: commandList.build(),
-			});
+			const definitions = commandList.buildByScope(this._config.dev_guild_id);
+			this.reportLocalizationIssues(localizer);
+			await new CommandRegistrar(
+				rest,
+				this._config.discord_id,
+				this._config.prune_commands
+			).syncAll(definitions);
 			Loggers.get().info('Bot : Successfully loaded application (/) commands.');
 		} catch (e: any) {
 			Loggers.get().error(e, e.stack);
 		}
 
-		this._client.on(Events.InteractionCreate, async (interaction) => {
-			if (!interaction)
-				throw LocaleError.withCustomI18n(
-					'error.discord.no_interaction',
-					this.i18nInstance
-				);
-			if (!interaction.guildId)
-				throw LocaleError.withCustomI18n(
-					'error.discord.no_guild_id',
-					this.i18nInstance
-				);
+		this._client.on(Events.InteractionCreate, (interaction) =>
+			this.track(async () => {
+				if (!interaction)
+					throw LocaleError.withCustomI18n(
+						'error.discord.no_interaction',
+						this.i18nInstance
+					);
+
+				let locale = this.i18nInstance.getLocale();
+				try {
+					locale = await this.localeResolver.resolve(interaction);
+					await this.handleInteraction(interaction, commandList, locale);
+				} catch (e: any) {
+					Loggers.get().error(e, e.stack);
+					await this.handleInteractionError(interaction, e, locale);
+				}
+			})
+		);
+		for (const handler of eventHandlers) this.registerEventHandler(handler);
+		this._client.once(Events.ClientReady, async (client) => {
+			// The service is ready before the jobs using it start
+			await this.runHook('onReady', client);
+			if (!this.stopping) this.scheduler.start(client, this.service);
+		});
+		if (this._config.prefix_commands)
+			this._client.on(Events.MessageCreate, (message) =>
+				this.track(() => this.handleMessage(message, commandList))
+			);
+		if (this._config.handle_signals) {
+			process.once('SIGINT', this.onSignal);
+			process.once('SIGTERM', this.onSignal);
+		}
+		await this._client.login(this._config.discord_token);
+	};
+
+	/**
+	 * Runs an interaction or a prefix command, tracked so that stop() can wait for it
+	 * Ignored once the bot is stopping
+	 * @param task The task to run
+	 * @returns The promise of the task, or undefined if ignored
+	 */
+	private track = (task: () => Promise<void>): Promise<void> | undefined => {
+		if (this.stopping) return undefined;
+		const promise = task().finally(() => this.inFlight.delete(promise));
+		this.inFlight.add(promise);
+		return promise;
+	};
+
+	/**
+	 * Calls a lifecycle hook of the service, if implemented
+	 * @param name The name of the hook
+	 * @param args The arguments of the hook
+	 */
+	private runHook = async <K extends keyof LifecycleHooks>(
+		name: K,
+		...args: Parameters<NonNullable<LifecycleHooks[K]>>
+	): Promise<void> => {
+		const hook = (this.service as LifecycleHooks | undefined)?.[name];
+		if (typeof hook !== 'function') return;
+		try {
+			await (hook as (...params: unknown[]) => unknown).apply(
+				this.service,
+				args
+			);
+		} catch (e: any) {
+			Loggers.get().error(
+				`Bot : Lifecycle hook ${name} failed: ${e.message}`,
+				e.stack
+			);
+		}
+	};
+
+	/**
+	 * Stops the bot on SIGINT or SIGTERM, then exits the process
+	 * @param signal The received signal
+	 */
+	private onSignal = async (signal: NodeJS.Signals) => {
+		Loggers.get().info(`Bot : Received ${signal}`);
+		await this.stop();
+		process.exit(0);
+	};
 
+	/**
+	 * Subscribes an event handler to its gateway event
+	 * Errors are caught and logged like those of interactions, so that a failing handler can't crash the bot
+	 * @param handler The event handler
+	 */
+	private registerEventHandler = (handler: AnyEventHandler<T>) => {
+		const listener = async (...args: unknown[]) => {
 			try {
-				await this.handleInteraction(interaction, commandList);
+				await (handler as EventHandler<T>).execute(
+					args as ClientEvents[keyof ClientEvents],
+					this._client,
+					this.service
+				);
 			} catch (e: any) {
-				Loggers.get().error(e, e.stack);
-				await this.handleInteractionError(interaction, e);
+				Loggers.get().error(
+					`Bot : Event handler for ${handler.event} failed: ${e.message}`,
+					e.stack
+				);
 			}
-		});
-		await this._client.login(this._config.discord_token);
+		};
+		if (handler.once) this._client.once(handler.event, listener);
+		else this._client.on(handler.event, listener);
+	};
+
+	/**
+	 * Runs the prefix command of a message, if any, through the same pipeline as slash commands
+	 * @param message The message
+	 * @param commandList The command list to use for execution
+	 */
+	private handleMessage = async (
+		message: Message,
+		commandList: CommandList<T>
+	) => {
+		if (message.author.bot) return;
+		const line = stripPrefix(
+			message.content,
+			this._config.prefix_commands!,
+			this._client.user?.id
+		);
+		if (!line) return;
+
+		const [name = '', ...tokens] = tokenize(line);
+		const commandName = name.toLowerCase();
+		const command = commandList.getCommand(commandName);
+		// Only slash commands can be run from a message, aliases are for component clicks
+		// and commands are only found where they are registered
+		if (
+			!command ||
+			command.name !== commandName ||
+			command.type !== ApplicationCommandType.ChatInput ||
+			!command.registerPredicate() ||
+			!command.scope.includes(message.guildId, this._config.dev_guild_id)
+		)
+			return;
+
+		let interaction = new PrefixCommandInteraction(
+			message,
+			command.name,
+			[],
+			this.i18nInstance
+		);
+		let locale = this.i18nInstance.getLocale();
+		try {
+			locale = await this.localeResolver.resolve(
+				interaction as unknown as BaseInteraction
+			);
+			// Parse errors are thrown as LocaleErrors, answered in the resolved locale
+			interaction = new PrefixCommandInteraction(
+				message,
+				command.name,
+				await parsePrefixOptions(command, tokens, message, this.i18nInstance),
+				this.i18nInstance
+			);
+			await commandList.execute(
+				interaction as unknown as BaseInteraction,
+				this._client,
+				this.service,
+				command.name,
+				undefined,
+				undefined,
+				locale
+			);
+		} catch (e: any) {
+			Loggers.get().error(e, e.stack);
+			await this.handleInteractionError(interaction, e, locale);
+		}
+	};
+
+	/**
+	 * Logs the command translations that are missing or rejected by Discord's rules
+	 * @param localizer The localizer used to build the commands
+	 */
+	private reportLocalizationIssues = (localizer: CommandLocalizer) => {
+		const { missing, invalid } = localizer.getIssues();
+		if (missing.length > 0)
+			Loggers.get().warn(
+				`Bot : Missing command translations (${missing.length}) : ${missing.join(', ')}`
+			);
+		if (invalid.length > 0)
+			Loggers.get().error(
+				`Bot : Command translations rejected by Discord's naming rules (${invalid.length}) : ${invalid.join(', ')}`
+			);
 	};
 
 	/**
 	 * Starts the Discord bot, registering commands and logging in
 	 * @param commandList The list of commands to register and use
+	 * @param eventHandlers Optional handlers of the other gateway events (guildMemberAdd, messageReactionAdd, etc.)
 	 * @returns Promise resolving to the Discord.js Client instance
 	 */
-	start = async (commandList: CommandList<T>): Promise<Client> => {
+	start = async (
+		commandList: CommandList<T>,
+		eventHandlers: AnyEventHandler<T>[] = []
+	): Promise<Client> => {
 		if (!commandList)
 			throw LocaleError.withCustomI18n(
 				'error.discord.no_configured_command',
 				this.i18nInstance
 			);
-		await this.register(commandList);
+		await this.register(commandList, eventHandlers);
 		return this._client;
 	};
 
+	/**
+	 * Stops the bot gracefully
+	 * New interactions are ignored, the commands and jobs in progress are waited for (up to `shutdown_timeout`),
+	 * then the registered API clients are disposed, the client is destroyed and the loggers are flushed.
+	 * @returns Promise resolving once the bot is stopped
+	 */
+	stop = (): Promise<void> => {
+		this.stopping ??= this.shutdown();
+		return this.stopping;
+	};
+
+	/**
+	 * Releases everything the bot holds, in order
+	 * @returns Promise resolving once the bot is stopped
+	 */
+	private shutdown = async (): Promise<void> => {
+		Loggers.get().info('Bot : Stopping');
+		process.off('SIGINT', this.onSignal);
+		process.off('SIGTERM', this.onSignal);
+		await this.runHook('onBeforeStop');
+
+		const timeout = this._config.shutdown_timeout ?? 10000;
+		let timer: NodeJS.Timeout | undefined;
+		const completed = await Promise.race([
+			Promise.allSettled([...this.inFlight, this.scheduler.stop()]).then(
+				() => true
+			),
+			new Promise<boolean>((resolve) => {
+				timer = setTimeout(() => resolve(false), timeout);
+			}),
+		]);
+		clearTimeout(timer);
+		if (!completed)
+			Loggers.get().warn(
+				`Bot : ${this.inFlight.size} interaction(s) still in progress after ${timeout}ms, stopping anyway`
+			);
+
+		for (const api of this.apis) api.dispose();
+		this.apis = [];
+		this.commandList?.dispose();
+		await this._client?.destroy();
+		await this.runHook('onStopped');
+		Loggers.get().info('Bot : Stopped');
+		await Loggers.close();
+	};
+
+	/**
+	 * Registers API clients to dispose when the bot stops, so that their timers don't keep the process alive
+	 * @param apis The API clients
+	 * @returns The SimpleDiscordBot instance for chaining
+	 */
+	registerApis = (...apis: MainApi[]): SimpleDiscordBot<T> => {
+		this.apis.push(...apis);
+		return this;
+	};
+
+	/**
+	 * Adds jobs run periodically once the bot is ready (polling external APIs, cleanups, etc.)
+	 * @param jobs The jobs to schedule
+	 * @returns The SimpleDiscordBot instance for chaining
+	 * @throws Error if a job has an invalid schedule or its name is already used
+	 */
+	schedule = (...jobs: ScheduledJob<T>[]): SimpleDiscordBot<T> => {
+		this.scheduler.add(...jobs);
+		return this;
+	};
+
 	/**
 	 * Creates a new SimpleDiscordBot instance
 	 * @param config Configuration options for the bot
@@ -101,13 +419,10 @@ export class SimpleDiscordBot<T> {
 		this.service = service;
 
 		// Create a namespaced i18n instance to avoid conflicts with consuming applications
-		this.i18nInstance = new I18n();
-		this.i18nInstance.configure({
-			locales: this._config.available_locale,
-			directory: this._config.locale_directory,
-			defaultLocale: this._config.available_locale[0],
-			objectNotation: true,
-		});
+		this.i18nInstance = createI18n(
+			this._config.locale_directory,
+			this._config.available_locale
+		);
 		if (
 			!this._config.available_locale.includes(this._config.locale.toLowerCase())
 		)
@@ -119,35 +434,69 @@ export class SimpleDiscordBot<T> {
 				this.i18nInstance
 			);
 		this.i18nInstance.setLocale(this._config.locale.toLowerCase());
+		this.validateLocales();
+		this.localeResolver = new LocaleResolver(
+			this._config.available_locale,
+			this._config.locale,
+			this._config.locale_chain,
+			this._config.guild_locale
+		);
+		this.scheduler = new Scheduler(this._config.clock ?? systemClock);
 		Loggers.get().info(`LOCALE : ${this._config.locale.toUpperCase()}`);
 	}
 
+	/**
+	 * Validates the locale files against the default locale, as set by `locale_validation`
+	 * @throws LocaleError in strict mode if the locale files are inconsistent
+	 */
+	private validateLocales() {
+		const mode = this._config.locale_validation ?? 'warn';
+		if (mode === 'off') return;
+
+		const issues = validateLocales(
+			this._config.locale_directory,
+			this._config.locale.toLowerCase(),
+			this._config.available_locale
+		);
+		if (issues.length === 0) return;
+
+		const details = formatLocaleIssues(issues);
+		if (mode === 'strict') {
+			Loggers.get().error(`LOCALE : Inconsistent locale files\n${details}`);
+			throw LocaleError.withArgsAndCustomI18n(
+				'error.locale.validation_failed',
+				{ count: `${issues.length}` },
+				this.i18nInstance
+			);
+		}
+		Loggers.get().warn(`LOCALE : Inconsistent locale files\n${details}`);
+	}
+
 	/**
 	 * Handles an interaction by determining its type and processing it accordingly
 	 * @param interaction The Discord interaction to handle
 	 * @param commandList The command list to use for execution
+	 * @param locale The locale resolved for the interaction
 	 */
 	private async handleInteraction(
 		interaction: any,
-		commandList: CommandList<T>
+		commandList: CommandList<T>,
+		locale: string
 	): Promise<void> {
-		// Skip processing if it's a navigation button
-		if (
-			interaction.isButton() &&
-			(interaction.customId === 'prev' || interaction.customId === 'next')
-		) {
-			return;
-		}
-
 		// Extract action, extraInfo, and modalPayload based on interaction type
 		const { action, extraInfo, modalPayload } =
-			this.extractInteractionData(interaction);
+			await this.extractInteractionData(interaction, commandList);
 
 		// If we couldn't determine an action and it's not a chat input command, skip
 		if (!action && !interaction.isChatInputCommand()) {
 			return;
 		}
 
+		// Components without a matching command are left to the collectors handling them
+		if (interaction.isMessageComponent() && !commandList.getCommand(action!)) {
+			return;
+		}
+
 		// Execute the command
 		await commandList.execute(
 			interaction,
@@ -155,40 +504,68 @@ export class SimpleDiscordBot<T> {
 			this.service,
 			action,
 			extraInfo,
-			modalPayload
+			modalPayload,
+			locale
 		);
 	}
 
 	/**
 	 * Extracts action, extraInfo, and modalPayload from an interaction based on its type
 	 * @param interaction The Discord interaction
+	 * @param commandList The command list, used to find the payload schema of the targeted command
 	 * @returns Object containing action, extraInfo, and modalPayload
 	 */
-	private extractInteractionData(interaction: any): {
+	private async extractInteractionData(
+		interaction: any,
+		commandList: CommandList<T>
+	): Promise<{
 		action?: string;
 		extraInfo?: any;
 		modalPayload?: any;
-	} {
+	}> {
 		if (interaction.isAutocomplete()) {
 			return {
 				action: `${interaction.commandName}_autocomplete`,
 			};
-		} else if (interaction.isStringSelectMenu()) {
+		} else if (interaction.isContextMenuCommand()) {
 			return {
-				action: interaction.customId,
-				extraInfo: interaction.values[0],
+				action: interaction.commandName,
+			};
+		} else if (interaction.isAnySelectMenu()) {
+			const action = `select_${getCustomIdPrefix(interaction.customId)}`;
+			// String selects without a SelectMenuCommand keep being routed by their raw customId
+			if (!commandList.getCommand(action) && interaction.isStringSelectMenu())
+				return {
+					action: interaction.customId,
+					extraInfo: interaction.values[0],
+				};
+			return {
+				action,
+				extraInfo: await this.decodePayload(
+					interaction.customId,
+					action,
+					commandList
+				),
 			};
 		} else if (interaction.isButton()) {
-			const [command, ...infos] = interaction.customId.split(';');
+			const action = `button_${getCustomIdPrefix(interaction.customId)}`;
 			return {
-				action: `button_${command}`,
-				extraInfo: this.parseKeyValueString(infos),
+				action,
+				extraInfo: await this.decodePayload(
+					interaction.customId,
+					action,
+					commandList
+				),
 			};
 		} else if (interaction.isModalSubmit()) {
-			const [command, ...infos] = interaction.customId.split(';');
+			const action = `submit_${getCustomIdPrefix(interaction.customId)}`;
 			return {
-				action: `submit_${command}`,
-				extraInfo: this.parseKeyValueString(infos),
+				action,
+				extraInfo: await this.decodePayload(
+					interaction.customId,
+					action,
+					commandList
+				),
 				modalPayload: interaction.fields,
 			};
 		}
@@ -201,17 +578,24 @@ export class SimpleDiscordBot<T> {
 	 * Handles errors that occur during interaction processing
 	 * @param interaction The Discord interaction
 	 * @param error The error that occurred
+	 * @param locale The locale resolved for the interaction
 	 */
 	private async handleInteractionError(
 		interaction: any,
-		error: any
+		error: any,
+		locale: string
 	): Promise<void> {
 		// Skip handling for unknown interaction errors (Discord code 10062)
 		if (error.code === 10062) {
 			return;
 		}
 
-		const errorMessage = `⚠️ __${error.message.substring(0, 1_500)}__ ⚠️`;
+		// Localized errors are translated again in the locale of the interaction
+		const message: string =
+			error instanceof LocaleError
+				? error.translate(this.i18nInstance, locale)
+				: error.message;
+		const errorMessage = `⚠️ __${message.substring(0, 1_500)}__ ⚠️`;
 
 		// Handle based on interaction state
 		if ('deferred' in interaction && interaction.deferred) {
@@ -225,20 +609,34 @@ export class SimpleDiscordBot<T> {
 	}
 
 	/**
-	 * Parses a key-value string array into an object
-	 * @param input Array of strings in format "key:=value"
-	 * @returns Object with key-value pairs
+	 * Decodes the payload of a customId using the schema of the command it is routed to
+	 * Payloads kept in the state store are fetched from it
+	 * @param customId The customId to decode
+	 * @param action The action the customId is routed to
+	 * @param commandList The command list containing the targeted command
+	 * @returns The decoded payload, undefined if no command handles the customId
+	 * @throws LocaleError if the stored payload has expired
 	 */
-	private parseKeyValueString(input: string[]): Record<string, string> {
-		return input.reduce(
-			(result, pair) => {
-				const [key, value] = pair.split(':=');
-				if (key && value) {
-					result[key] = value;
-				}
-				return result;
-			},
-			{} as Record<string, string>
-		);
+	private async decodePayload(
+		customId: string,
+		action: string,
+		commandList: CommandList<T>
+	): Promise<unknown> {
+		const command = commandList.getCommand(action);
+		// The customIds of components handled by collectors follow their own format
+		if (!command) return undefined;
+
+		const token = getCustomIdStateToken(customId);
+		if (token) {
+			const payload = await this._config.state_store?.get(token);
+			if (payload === undefined)
+				throw LocaleError.withCustomI18n(
+					'error.discord.interaction_expired',
+					this.i18nInstance
+				);
+			return payload;
+		}
+
+		return decodeCustomId(customId, command.payloadSchema).payload;
 	}
 }
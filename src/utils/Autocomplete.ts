@@ -0,0 +1,112 @@
+import { APIApplicationCommandOptionChoice } from 'discord.js';
+
+/** Maximum number of choices Discord accepts in an autocomplete response */
+export const AUTOCOMPLETE_MAX_CHOICES = 25;
+
+/** Maximum length of a choice name */
+const CHOICE_NAME_MAX_LENGTH = 100;
+
+/**
+ * Candidate of an autocomplete list, a plain value is used as both name and value
+ */
+export type AutocompleteCandidate =
+	| string
+	| number
+	| APIApplicationCommandOptionChoice;
+
+/**
+ * Normalizes a text for comparison, ignoring case and accents
+ * @param text The text to normalize
+ * @returns The normalized text
+ */
+const normalize = (text: string): string =>
+	text
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase();
+
+/**
+ * Checks whether the characters of a query appear in a text, in order
+ * @param query The normalized query
+ * @param text The normalized text
+ * @returns true if the query is a subsequence of the text
+ */
+const isSubsequence = (query: string, text: string): boolean => {
+	let index = 0;
+	for (const char of text) {
+		if (char === query[index]) index++;
+		if (index === query.length) return true;
+	}
+	return false;
+};
+
+/**
+ * Scores how well a text matches a query, lower is better
+ * @param query The normalized query
+ * @param text The text to score
+ * @returns The score, or -1 if the text doesn't match
+ */
+const score = (query: string, text: string): number => {
+	const normalized = normalize(text);
+	if (normalized === query) return 0;
+	if (normalized.startsWith(query)) return 1;
+	if (normalized.split(/[\s\-_./]+/).some((word) => word.startsWith(query)))
+		return 2;
+	if (normalized.includes(query)) return 3;
+	if (isSubsequence(query, normalized)) return 4;
+	return -1;
+};
+
+/**
+ * Converts a candidate to a choice, truncating names Discord would reject
+ * @param candidate The candidate
+ * @returns The choice
+ */
+const toChoice = (
+	candidate: AutocompleteCandidate
+): APIApplicationCommandOptionChoice => {
+	const choice =
+		typeof candidate === 'object'
+			? candidate
+			: { name: String(candidate), value: candidate };
+	return choice.name.length > CHOICE_NAME_MAX_LENGTH
+		? { ...choice, name: choice.name.slice(0, CHOICE_NAME_MAX_LENGTH) }
+		: choice;
+};
+
+/**
+ * Fuzzy-filters autocomplete candidates against the value typed by the user
+ * Exact matches come first, then prefixes, word prefixes, substrings and finally characters typed in order.
+ * Candidates keep their order within each group, and the result is truncated to what Discord accepts.
+ * @param query The value typed by the user
+ * @param candidates The candidates to filter
+ * @param limit Maximum number of choices returned (25 at most)
+ * @returns The matching choices
+ */
+export const filterChoices = (
+	query: string,
+	candidates: readonly AutocompleteCandidate[],
+	limit: number = AUTOCOMPLETE_MAX_CHOICES
+): APIApplicationCommandOptionChoice[] => {
+	const max = Math.min(limit, AUTOCOMPLETE_MAX_CHOICES);
+	const choices = candidates.map(toChoice);
+	const normalizedQuery = normalize(query.trim());
+	if (!normalizedQuery) return choices.slice(0, max);
+
+	return choices
+		.map((choice, index) => {
+			const scores = [
+				score(normalizedQuery, choice.name),
+				score(normalizedQuery, String(choice.value)),
+			].filter((value) => value >= 0);
+			return {
+				choice,
+				index,
+				score: scores.length > 0 ? Math.min(...scores) : -1,
+			};
+		})
+		.filter((entry) => entry.score >= 0)
+		.sort((a, b) => a.score - b.score || a.index - b.index)
+		.slice(0, max)
+		.map((entry) => entry.choice);
+};
@@ -0,0 +1,117 @@
+/**
+ * Source of time and timers, replaceable to test time-based code deterministically
+ */
+export interface Clock {
+	/**
+	 * Gets the current time
+	 * @returns The current time in ms since the epoch
+	 */
+	now(): number;
+
+	/**
+	 * Runs a callback after a delay
+	 * @param callback The callback to run
+	 * @param delay The delay in ms
+	 * @returns The timer handle
+	 */
+	setTimeout(callback: () => void, delay: number): unknown;
+
+	/**
+	 * Cancels a timer
+	 * @param handle The timer handle returned by setTimeout
+	 */
+	clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Clock based on the system time and Node.js timers
+ * Timers don't keep the process alive
+ */
+export const systemClock: Clock = {
+	now: () => Date.now(),
+	setTimeout: (callback, delay) => {
+		const timer = setTimeout(callback, delay);
+		timer.unref();
+		return timer;
+	},
+	clearTimeout: (handle) => clearTimeout(handle as NodeJS.Timeout),
+};
+
+/**
+ * Interface representing a timer of a ManualClock
+ */
+interface ManualTimer {
+	/** Time at which the timer fires */
+	at: number;
+
+	/** The callback to run */
+	callback: () => void;
+}
+
+/**
+ * Clock whose time only moves when told to, for tests
+ * Timers fire in order while the clock is advanced.
+ */
+export class ManualClock implements Clock {
+	/** Current time in ms since the epoch */
+	private time: number;
+
+	/** Pending timers */
+	private timers: Set<ManualTimer> = new Set();
+
+	/**
+	 * Creates a new ManualClock instance
+	 * @param start Initial time, as a date or in ms since the epoch (0 by default)
+	 */
+	constructor(start: Date | number = 0) {
+		this.time = typeof start === 'number' ? start : start.getTime();
+	}
+
+	/**
+	 * Gets the current time of the clock
+	 * @returns The current time in ms since the epoch
+	 */
+	now(): number {
+		return this.time;
+	}
+
+	/**
+	 * Runs a callback once the clock has been advanced past a delay
+	 * @param callback The callback to run
+	 * @param delay The delay in ms
+	 * @returns The timer handle
+	 */
+	setTimeout(callback: () => void, delay: number): unknown {
+		const timer = { at: this.time + Math.max(delay, 0), callback };
+		this.timers.add(timer);
+		return timer;
+	}
+
+	/**
+	 * Cancels a timer
+	 * @param handle The timer handle returned by setTimeout
+	 */
+	clearTimeout(handle: unknown): void {
+		this.timers.delete(handle as ManualTimer);
+	}
+
+	/**
+	 * Moves the time forward, running the timers that fire meanwhile
+	 * Pending promises are flushed after each timer so that async callbacks can complete.
+	 * @param ms The duration in ms
+	 */
+	async advance(ms: number): Promise<void> {
+		const target = this.time + ms;
+		for (;;) {
+			const next = [...this.timers]
+				.filter((timer) => timer.at <= target)
+				.sort((a, b) => a.at - b.at)[0];
+			if (!next) break;
+			this.timers.delete(next);
+			this.time = next.at;
+			next.callback();
+			await new Promise((resolve) => setImmediate(resolve));
+		}
+		this.time = target;
+	}
+}
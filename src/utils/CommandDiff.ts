@@ -0,0 +1,242 @@
+import { ApplicationCommandType } from 'discord.js';
+import { CommandDefinition } from '../model/CommandDefinition';
+
+/**
+ * Command definition as currently registered on Discord
+ * Only the ID is required on top of the definition to update or delete it
+ */
+export type RegisteredCommand = CommandDefinition & { id?: string };
+
+/**
+ * Result of the comparison between registered and desired commands
+ */
+export interface CommandDiff {
+	/** Commands that don't exist yet and must be created */
+	created: CommandDefinition[];
+
+	/** Commands that exist but differ, with the ID of the registered command */
+	updated: { id?: string; definition: CommandDefinition }[];
+
+	/** Registered commands that are no longer declared and must be deleted */
+	deleted: RegisteredCommand[];
+
+	/** Names of the commands that are already up to date */
+	unchanged: string[];
+}
+
+/**
+ * Values Discord fills in when a field is not sent, so that an omitted field
+ * and its default don't show up as a difference
+ */
+const COMMAND_DEFAULTS: Record<string, unknown> = {
+	type: ApplicationCommandType.ChatInput,
+	description: '',
+	nsfw: false,
+};
+
+/** Default values of command option fields */
+const OPTION_DEFAULTS: Record<string, unknown> = {
+	required: false,
+	autocomplete: false,
+};
+
+/** Command fields compared when diffing, other fields returned by Discord are ignored */
+const COMMAND_KEYS = [
+	'name',
+	'type',
+	'description',
+	'options',
+	'default_member_permissions',
+	'contexts',
+	'integration_types',
+	'nsfw',
+	'name_localizations',
+	'description_localizations',
+];
+
+/** Command fields Discord ignores for guild commands, only compared between global commands */
+const GLOBAL_COMMAND_KEYS = ['contexts', 'integration_types'];
+
+/** Command fields compared when diffing guild commands */
+const GUILD_COMMAND_KEYS = COMMAND_KEYS.filter(
+	(key) => !GLOBAL_COMMAND_KEYS.includes(key)
+);
+
+/** Option fields compared when diffing */
+const OPTION_KEYS = [
+	'name',
+	'type',
+	'description',
+	'required',
+	'autocomplete',
+	'choices',
+	'options',
+	'min_value',
+	'max_value',
+	'min_length',
+	'max_length',
+	'channel_types',
+	'name_localizations',
+	'description_localizations',
+];
+
+/**
+ * Checks whether a value carries no information (null, undefined, empty array or object)
+ * @param value The value to check
+ * @returns true if the value is empty
+ */
+const isEmpty = (value: unknown): boolean =>
+	value === undefined ||
+	value === null ||
+	(Array.isArray(value) && value.length === 0) ||
+	(typeof value === 'object' &&
+		!Array.isArray(value) &&
+		Object.keys(value as object).length === 0);
+
+/**
+ * Keeps the compared keys of an object, dropping empty values and values equal to their default
+ * @param source The object to normalize
+ * @param keys The keys to keep
+ * @param defaults The default value of each key
+ * @returns The normalized object
+ */
+const pick = (
+	source: Record<string, any>,
+	keys: string[],
+	defaults: Record<string, unknown>
+): Record<string, unknown> => {
+	const res: Record<string, unknown> = {};
+	for (const key of keys) {
+		let value = source[key];
+		if (key === 'options' && Array.isArray(value)) {
+			value = value.map((option) => pick(option, OPTION_KEYS, OPTION_DEFAULTS));
+		} else if (key === 'choices' && Array.isArray(value)) {
+			value = value.map((choice) =>
+				pick(choice, ['name', 'value', 'name_localizations'], {})
+			);
+		} else if (GLOBAL_COMMAND_KEYS.includes(key) && Array.isArray(value)) {
+			// Contexts and integration types are sets, their order doesn't matter
+			value = [...value].sort((a, b) => a - b);
+		}
+		if (isEmpty(value) || value === defaults[key]) continue;
+		res[key] = value;
+	}
+	return res;
+};
+
+/**
+ * Serializes a value with sorted object keys, so that key order doesn't matter
+ * @param value The value to serialize
+ * @returns The stable JSON string
+ */
+const stableStringify = (value: unknown): string =>
+	JSON.stringify(value, (_key, val) =>
+		val && typeof val === 'object' && !Array.isArray(val)
+			? Object.fromEntries(
+					Object.entries(val).sort(([a], [b]) => a.localeCompare(b))
+				)
+			: val
+	);
+
+/**
+ * Builds the key identifying a command, names are only unique per command type
+ * @param command The command
+ * @returns The command key
+ */
+const commandKey = (command: CommandDefinition): string =>
+	`${command.type ?? ApplicationCommandType.ChatInput}:${command.name}`;
+
+/**
+ * Normalizes a command definition, keeping only the fields relevant for comparison
+ * @param command The command to normalize
+ * @param guild Whether the command is a guild command, whose contexts and integration types are ignored
+ * @returns The normalized command
+ */
+export const normalizeCommand = (
+	command: CommandDefinition,
+	guild: boolean = false
+): Record<string, unknown> =>
+	pick(
+		command as Record<string, any>,
+		guild ? GUILD_COMMAND_KEYS : COMMAND_KEYS,
+		COMMAND_DEFAULTS
+	);
+
+/**
+ * Checks whether two command definitions would register the same command
+ * @param a The first command
+ * @param b The second command
+ * @param guild Whether the commands are guild commands, whose contexts and integration types are ignored
+ * @returns true if the commands are equivalent
+ */
+export const isSameCommand = (
+	a: CommandDefinition,
+	b: CommandDefinition,
+	guild: boolean = false
+): boolean =>
+	stableStringify(normalizeCommand(a, guild)) ===
+	stableStringify(normalizeCommand(b, guild));
+
+/**
+ * Compares registered commands with the desired ones
+ * @param current Commands currently registered
+ * @param desired Commands that should be registered
+ * @param guild Whether the commands are guild commands, whose contexts and integration types are ignored
+ * @returns The commands to create, update and delete
+ */
+export const diffCommands = (
+	current: RegisteredCommand[],
+	desired: CommandDefinition[],
+	guild: boolean = false
+): CommandDiff => {
+	const diff: CommandDiff = {
+		created: [],
+		updated: [],
+		deleted: [],
+		unchanged: [],
+	};
+	const remaining = new Map(
+		current.map((command) => [commandKey(command), command])
+	);
+
+	for (const definition of desired) {
+		const key = commandKey(definition);
+		const registered = remaining.get(key);
+		remaining.delete(key);
+
+		if (!registered) {
+			diff.created.push(definition);
+		} else if (!isSameCommand(registered, definition, guild)) {
+			diff.updated.push({ id: registered.id, definition });
+		} else {
+			diff.unchanged.push(definition.name);
+		}
+	}
+
+	diff.deleted.push(...remaining.values());
+	return diff;
+};
+
+/**
+ * Checks whether a diff contains any change
+ * @param diff The diff to check
+ * @returns true if commands must be created, updated or deleted
+ */
+export const hasChanges = (diff: CommandDiff): boolean =>
+	diff.created.length > 0 || diff.updated.length > 0 || diff.deleted.length > 0;
+
+/**
+ * Summarizes a diff in a single line for logging
+ * @param diff The diff to summarize
+ * @returns The summary
+ */
+export const summarizeDiff = (diff: CommandDiff): string => {
+	const names = (commands: CommandDefinition[]) =>
+		commands.length ? ` (${commands.map((c) => c.name).join(', ')})` : '';
+	return [
+		`${diff.created.length} created${names(diff.created)}`,
+		`${diff.updated.length} updated${names(diff.updated.map((u) => u.definition))}`,
+		`${diff.deleted.length} deleted${names(diff.deleted)}`,
+		`${diff.unchanged.length} unchanged`,
+	].join(', ');
+};
@@ -0,0 +1,252 @@
+import { Locale, LocalizationMap } from 'discord.js';
+import { I18n } from 'i18n';
+import { SimpleDiscordBotConfig } from '../model/SimpleDiscordBotConfig';
+
+/** Pattern Discord enforces on slash command, subcommand and option names */
+const CHAT_INPUT_NAME_PATTERN = /^[-_\p{L}\p{N}\p{sc=Deva}\p{sc=Thai}]{1,32}$/u;
+
+/** Maximum length of context menu command names */
+const MENU_NAME_MAX_LENGTH = 32;
+
+/** Maximum length of descriptions and choice names */
+const DESCRIPTION_MAX_LENGTH = 100;
+
+/**
+ * Checks whether a name follows the rules Discord enforces
+ * Slash command, subcommand and option names must be lowercase, without spaces and at most 32 characters long
+ * @param name The name to check
+ * @param chatInput Whether the name is the one of a slash command or option, context menu names allow spaces and uppercase
+ * @returns true if Discord accepts the name
+ */
+export const isValidCommandName = (
+	name: string,
+	chatInput: boolean = true
+): boolean =>
+	chatInput
+		? CHAT_INPUT_NAME_PATTERN.test(name) && name === name.toLowerCase()
+		: name.length > 0 && name.length <= MENU_NAME_MAX_LENGTH;
+
+/**
+ * Checks whether a description or choice name follows the length Discord enforces
+ * @param text The text to check
+ * @returns true if Discord accepts the text
+ */
+const isValidDescription = (text: string): boolean =>
+	text.length > 0 && text.length <= DESCRIPTION_MAX_LENGTH;
+
+/**
+ * Locale files the commands are localized from, named as in the bot configuration
+ */
+export type CommandLocaleOptions = Pick<
+	SimpleDiscordBotConfig,
+	'locale' | 'available_locale' | 'locale_directory'
+>;
+
+/**
+ * Creates an i18n instance reading the locale files, configured as the one of SimpleDiscordBot
+ * @param localeDirectory Path to the directory containing the locale files
+ * @param availableLocales Available locales, the first one being the fallback
+ * @returns The i18n instance
+ */
+export const createI18n = (
+	localeDirectory: string,
+	availableLocales: string[]
+): I18n => {
+	const i18nInstance = new I18n();
+	i18nInstance.configure({
+		locales: availableLocales,
+		directory: localeDirectory,
+		defaultLocale: availableLocales[0],
+		objectNotation: true,
+		// Missing keys are reported by the locale validation instead of being written to the locale files
+		updateFiles: false,
+	});
+	return i18nInstance;
+};
+
+/**
+ * Generates the name and description localizations of commands, options and choices from locale files
+ * Translations are looked up under the localization key of each element (`<key>.name`, `<key>.description`, `<key>.choices.<value>`)
+ */
+export class CommandLocalizer {
+	/** i18n instance holding the locale catalogs */
+	private i18nInstance: I18n;
+
+	/** Locale of the base names and descriptions */
+	private defaultLocale: string;
+
+	/** Available locales with the Discord locales they provide translations for */
+	private locales: { locale: string; discordLocales: Locale[] }[];
+
+	/** Keys missing in a locale, as `locale:key` */
+	private missing: Set<string> = new Set();
+
+	/** Translations rejected because they don't follow Discord's rules, as `locale:key` */
+	private invalid: Set<string> = new Set();
+
+	/**
+	 * Creates a new CommandLocalizer instance
+	 * @param i18nInstance i18n instance holding the locale catalogs
+	 * @param availableLocales Locales to generate localizations for (e.g. `fr`, `en`)
+	 * @param defaultLocale Locale of the base names and descriptions
+	 */
+	constructor(
+		i18nInstance: I18n,
+		availableLocales: string[],
+		defaultLocale: string
+	) {
+		this.i18nInstance = i18nInstance;
+		this.defaultLocale = defaultLocale;
+		this.locales = availableLocales.map((locale) => ({
+			locale,
+			discordLocales: CommandLocalizer.getDiscordLocales(locale),
+		}));
+	}
+
+	/**
+	 * Creates a localizer reading the locale files directly, e.g. to export the commands without booting the bot
+	 * @param options The locale options of the bot configuration
+	 * @returns The command localizer, generating the same localizations as the bot
+	 */
+	static fromLocaleFiles(options: CommandLocaleOptions): CommandLocalizer {
+		return new CommandLocalizer(
+			createI18n(options.locale_directory, options.available_locale),
+			options.available_locale,
+			options.locale.toLowerCase()
+		);
+	}
+
+	/**
+	 * Gets the Discord locales covered by a locale
+	 * A locale without region covers every region of its language (`en` covers `en-US` and `en-GB`)
+	 * @param locale The locale
+	 * @returns The matching Discord locales
+	 */
+	static getDiscordLocales(locale: string): Locale[] {
+		const lowerCased = locale.toLowerCase();
+		return Object.values(Locale).filter((discordLocale) => {
+			const candidate = discordLocale.toLowerCase();
+			return (
+				candidate === lowerCased ||
+				(!lowerCased.includes('-') && candidate.split('-')[0] === lowerCased)
+			);
+		});
+	}
+
+	/**
+	 * Generates the localized fields of a slash command, subcommand, group or option
+	 * An empty description falls back to its translation in the default locale
+	 * @param key The localization key of the element
+	 * @param description The base description
+	 * @returns The description and the localizations of the name and description
+	 */
+	localizeFields(
+		key: string,
+		description: string
+	): {
+		description: string;
+		name_localizations?: LocalizationMap;
+		description_localizations?: LocalizationMap;
+	} {
+		const nameLocalizations = this.localizeName(key);
+		const descriptionLocalizations = this.localizeDescription(key);
+		return {
+			description:
+				description ||
+				this.translate(this.defaultLocale, `${key}.description`) ||
+				'',
+			...(nameLocalizations && { name_localizations: nameLocalizations }),
+			...(descriptionLocalizations && {
+				description_localizations: descriptionLocalizations,
+			}),
+		};
+	}
+
+	/**
+	 * Generates the localizations of a name
+	 * @param key The localization key of the element
+	 * @param chatInput Whether the name is the one of a slash command or option
+	 * @returns The localizations, or undefined if there is none
+	 */
+	localizeName(
+		key: string,
+		chatInput: boolean = true
+	): LocalizationMap | undefined {
+		return this.localize(`${key}.name`, (name) =>
+			isValidCommandName(name, chatInput)
+		);
+	}
+
+	/**
+	 * Generates the localizations of a description
+	 * @param key The localization key of the element
+	 * @returns The localizations, or undefined if there is none
+	 */
+	localizeDescription(key: string): LocalizationMap | undefined {
+		return this.localize(`${key}.description`, isValidDescription);
+	}
+
+	/**
+	 * Generates the localizations of a choice name
+	 * @param key The localization key of the option
+	 * @param value The value of the choice
+	 * @returns The localizations, or undefined if there is none
+	 */
+	localizeChoice(
+		key: string,
+		value: string | number
+	): LocalizationMap | undefined {
+		return this.localize(`${key}.choices.${value}`, isValidDescription);
+	}
+
+	/**
+	 * Gets the translation of a key in a locale without letting i18n write missing keys to disk
+	 * @param locale The locale
+	 * @param key The key, using object notation
+	 * @returns The translation, or undefined if missing
+	 */
+	translate(locale: string, key: string): string | undefined {
+		let value: unknown = this.i18nInstance.getCatalog(locale);
+		for (const segment of key.split('.')) {
+			if (!value || typeof value !== 'object') return undefined;
+			value = (value as Record<string, unknown>)[segment];
+		}
+		return typeof value === 'string' ? value : undefined;
+	}
+
+	/**
+	 * Gets the problems found while generating localizations
+	 * @returns The missing and invalid translations, as `locale:key`
+	 */
+	getIssues(): { missing: string[]; invalid: string[] } {
+		return { missing: [...this.missing], invalid: [...this.invalid] };
+	}
+
+	/**
+	 * Generates the localizations of a key in every available locale
+	 * @param key The key to translate
+	 * @param isValid Checks whether a translation follows Discord's rules
+	 * @returns The localizations, or undefined if there is none
+	 */
+	private localize(
+		key: string,
+		isValid: (translation: string) => boolean
+	): LocalizationMap | undefined {
+		const res: LocalizationMap = {};
+		for (const { locale, discordLocales } of this.locales) {
+			const translation = this.translate(locale, key);
+			if (translation === undefined) {
+				this.missing.add(`${locale}:${key}`);
+				continue;
+			}
+			if (!isValid(translation)) {
+				this.invalid.add(`${locale}:${key}`);
+				continue;
+			}
+			discordLocales.forEach(
+				(discordLocale) => (res[discordLocale] = translation)
+			);
+		}
+		return Object.keys(res).length > 0 ? res : undefined;
+	}
+}
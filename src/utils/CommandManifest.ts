@@ -0,0 +1,144 @@
+import fs from 'fs';
+import { CommandDefinition } from '../model/CommandDefinition';
+import { CommandList } from '../model/SimpleDiscordModels';
+import { CommandDiff, diffCommands, hasChanges } from './CommandDiff';
+import { CommandLocaleOptions, CommandLocalizer } from './CommandLocalizer';
+
+/** Current version of the manifest format */
+export const MANIFEST_VERSION = 1;
+
+/**
+ * Serializable snapshot of the commands declared by a CommandList, grouped by scope
+ * Can be reviewed, committed and deployed without booting the bot
+ */
+export interface CommandManifest {
+	/** Version of the manifest format */
+	version: number;
+
+	/** Commands registered globally */
+	global: CommandDefinition[];
+
+	/** Commands registered in specific guilds, keyed by guild ID */
+	guilds: Record<string, CommandDefinition[]>;
+}
+
+/**
+ * Sorts command definitions by name and type so that manifests are stable
+ * @param commands The commands to sort
+ * @returns A sorted copy of the commands
+ */
+const sortCommands = (commands: CommandDefinition[]): CommandDefinition[] =>
+	[...commands].sort(
+		(a, b) => a.name.localeCompare(b.name) || (a.type ?? 1) - (b.type ?? 1)
+	);
+
+/**
+ * Creates a manifest from a command list
+ * @param commandList The command list to export
+ * @param devGuildId The development guild used by commands with a DEV scope
+ * @param locales The locale files of the bot, to include the localizations it registers
+ * @returns The command manifest
+ */
+export const createManifest = <T>(
+	commandList: CommandList<T>,
+	devGuildId?: string,
+	locales?: CommandLocaleOptions
+): CommandManifest => {
+	if (locales)
+		commandList.setLocalizer(CommandLocalizer.fromLocaleFiles(locales));
+	const scoped = commandList.buildByScope(devGuildId);
+	return {
+		version: MANIFEST_VERSION,
+		global: sortCommands(scoped.global),
+		guilds: Object.fromEntries(
+			Object.keys(scoped.guilds)
+				.sort()
+				.map((guildId) => [guildId, sortCommands(scoped.guilds[guildId]!)])
+		),
+	};
+};
+
+/**
+ * Serializes a manifest to JSON
+ * @param manifest The manifest to serialize
+ * @returns The JSON string, ending with a new line
+ */
+export const serializeManifest = (manifest: CommandManifest): string =>
+	`${JSON.stringify(manifest, null, '\t')}\n`;
+
+/**
+ * Parses a manifest from JSON
+ * @param json The JSON string
+ * @returns The command manifest
+ * @throws Error if the JSON is not a manifest or uses an unsupported version
+ */
+export const parseManifest = (json: string): CommandManifest => {
+	const manifest = JSON.parse(json);
+	if (
+		!manifest ||
+		!Array.isArray(manifest.global) ||
+		typeof manifest.guilds !== 'object'
+	)
+		throw new Error('Invalid command manifest');
+	if (manifest.version !== MANIFEST_VERSION)
+		throw new Error(
+			`Unsupported command manifest version ${manifest.version}, expected ${MANIFEST_VERSION}`
+		);
+	return manifest as CommandManifest;
+};
+
+/**
+ * Writes the manifest of a command list to a file
+ * @param commandList The command list to export
+ * @param filePath Path of the manifest file
+ * @param devGuildId The development guild used by commands with a DEV scope
+ * @param locales The locale files of the bot, to include the localizations it registers
+ * @returns The written manifest
+ */
+export const writeManifest = <T>(
+	commandList: CommandList<T>,
+	filePath: string,
+	devGuildId?: string,
+	locales?: CommandLocaleOptions
+): CommandManifest => {
+	const manifest = createManifest(commandList, devGuildId, locales);
+	fs.writeFileSync(filePath, serializeManifest(manifest));
+	return manifest;
+};
+
+/**
+ * Reads a manifest from a file
+ * @param filePath Path of the manifest file
+ * @returns The command manifest
+ */
+export const readManifest = (filePath: string): CommandManifest =>
+	parseManifest(fs.readFileSync(filePath, 'utf-8'));
+
+/**
+ * Compares two manifests, scope by scope
+ * @param previous The previous manifest (e.g. the committed snapshot)
+ * @param next The new manifest
+ * @returns The diff of each scope that has changes, keyed by guild ID ('global' for global commands)
+ */
+export const diffManifests = (
+	previous: CommandManifest,
+	next: CommandManifest
+): Record<string, CommandDiff> => {
+	const res: Record<string, CommandDiff> = {};
+	const scopes = new Set([
+		...Object.keys(previous.guilds),
+		...Object.keys(next.guilds),
+	]);
+
+	const global = diffCommands(previous.global, next.global);
+	if (hasChanges(global)) res.global = global;
+	for (const guildId of scopes) {
+		const diff = diffCommands(
+			previous.guilds[guildId] ?? [],
+			next.guilds[guildId] ?? [],
+			true
+		);
+		if (hasChanges(diff)) res[guildId] = diff;
+	}
+	return res;
+};
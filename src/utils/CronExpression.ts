@@ -0,0 +1,227 @@
+/**
+ * Range of values of a cron field
+ */
+interface CronField {
+	/** Smallest value of the field */
+	min: number;
+
+	/** Largest value of the field */
+	max: number;
+
+	/** Names accepted instead of values, e.g. `jan` for months */
+	names?: string[];
+}
+
+/** Fields of a cron expression, in order */
+const FIELDS: CronField[] = [
+	{ min: 0, max: 59 },
+	{ min: 0, max: 23 },
+	{ min: 1, max: 31 },
+	{
+		min: 1,
+		max: 12,
+		names: [
+			'jan',
+			'feb',
+			'mar',
+			'apr',
+			'may',
+			'jun',
+			'jul',
+			'aug',
+			'sep',
+			'oct',
+			'nov',
+			'dec',
+		],
+	},
+	// 7 is accepted for Sunday, as in most cron implementations
+	{ min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+/** Expressions accepted as shortcuts */
+const MACROS: Record<string, string> = {
+	'@yearly': '0 0 1 1 *',
+	'@annually': '0 0 1 1 *',
+	'@monthly': '0 0 1 * *',
+	'@weekly': '0 0 * * 0',
+	'@daily': '0 0 * * *',
+	'@midnight': '0 0 * * *',
+	'@hourly': '0 * * * *',
+};
+
+/** Number of years searched for a matching date before giving up (e.g. `0 0 30 2 *`) */
+const MAX_SEARCH_YEARS = 8;
+
+/**
+ * Five-field cron expression (minute, hour, day of month, month, day of week), evaluated in local time
+ * Supports `*`, values, ranges (`1-5`), steps (`*\/15`, `0-30/10`), lists (`1,15`), month and day names
+ * and the `@hourly`, `@daily`, `@weekly`, `@monthly` and `@yearly` shortcuts.
+ * As in standard cron, a date matches when either the day of month or the day of week matches
+ * if both are restricted.
+ */
+export class CronExpression {
+	/** The expression as written */
+	readonly source: string;
+
+	/** Allowed minutes */
+	private minutes: Set<number>;
+
+	/** Allowed hours */
+	private hours: Set<number>;
+
+	/** Allowed days of month */
+	private days: Set<number>;
+
+	/** Allowed months (1 to 12) */
+	private months: Set<number>;
+
+	/** Allowed days of week (0 to 6, Sunday being 0) */
+	private weekdays: Set<number>;
+
+	/** Whether the day of month field is restricted (doesn't start with `*`) */
+	private restrictedDays: boolean;
+
+	/** Whether the day of week field is restricted (doesn't start with `*`) */
+	private restrictedWeekdays: boolean;
+
+	/**
+	 * Creates a new CronExpression instance
+	 * @param source The cron expression
+	 * @throws Error if the expression is invalid
+	 */
+	constructor(source: string) {
+		this.source = source;
+		const expression = MACROS[source.trim().toLowerCase()] ?? source;
+		const fields = expression.trim().split(/\s+/);
+		if (fields.length !== FIELDS.length)
+			throw new Error(
+				`Invalid cron expression "${source}": expected ${FIELDS.length} fields, got ${fields.length}`
+			);
+
+		const [minutes, hours, days, months, weekdays] = fields.map(
+			(field, index) => CronExpression.parseField(source, field, FIELDS[index]!)
+		) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+		this.minutes = minutes;
+		this.hours = hours;
+		this.days = days;
+		this.months = months;
+		if (weekdays.delete(7)) weekdays.add(0);
+		this.weekdays = weekdays;
+		this.restrictedDays = !fields[2]!.startsWith('*');
+		this.restrictedWeekdays = !fields[4]!.startsWith('*');
+	}
+
+	/**
+	 * Parses a cron expression
+	 * @param source The cron expression
+	 * @returns The parsed expression
+	 * @throws Error if the expression is invalid
+	 */
+	static parse(source: string): CronExpression {
+		return new CronExpression(source);
+	}
+
+	/**
+	 * Gets the first date matching the expression strictly after a date
+	 * @param after The date to search from
+	 * @returns The next matching date, at the start of its minute
+	 * @throws Error if no date matches (e.g. February 30th)
+	 */
+	next(after: Date): Date {
+		const date = new Date(after.getTime());
+		date.setSeconds(0, 0);
+		date.setMinutes(date.getMinutes() + 1);
+		const limit = after.getFullYear() + MAX_SEARCH_YEARS;
+
+		while (date.getFullYear() <= limit) {
+			if (!this.months.has(date.getMonth() + 1)) {
+				date.setMonth(date.getMonth() + 1, 1);
+				date.setHours(0, 0, 0, 0);
+			} else if (!this.matchesDay(date)) {
+				date.setDate(date.getDate() + 1);
+				date.setHours(0, 0, 0, 0);
+			} else if (!this.hours.has(date.getHours())) {
+				date.setHours(date.getHours() + 1, 0, 0, 0);
+			} else if (!this.minutes.has(date.getMinutes())) {
+				date.setMinutes(date.getMinutes() + 1, 0, 0);
+			} else {
+				return date;
+			}
+		}
+		throw new Error(`Cron expression "${this.source}" never matches`);
+	}
+
+	/**
+	 * Checks whether a date matches the day of month and day of week fields
+	 * @param date The date to check
+	 * @returns true if the day matches
+	 */
+	private matchesDay(date: Date): boolean {
+		const day = this.days.has(date.getDate());
+		const weekday = this.weekdays.has(date.getDay());
+		return this.restrictedDays && this.restrictedWeekdays
+			? day || weekday
+			: day && weekday;
+	}
+
+	/**
+	 * Parses a field of a cron expression
+	 * @param source The whole expression, used in error messages
+	 * @param field The field to parse
+	 * @param range The range of values of the field
+	 * @returns The allowed values
+	 * @throws Error if the field is invalid
+	 */
+	private static parseField(
+		source: string,
+		field: string,
+		range: CronField
+	): Set<number> {
+		const invalid = () =>
+			new Error(
+				`Invalid cron expression "${source}": invalid field "${field}"`
+			);
+		const parseValue = (value: string): number => {
+			const nameIndex = range.names?.indexOf(value.toLowerCase()) ?? -1;
+			const number =
+				nameIndex >= 0
+					? nameIndex + (range.names!.length === 12 ? 1 : 0)
+					: /^\d+$/.test(value)
+						? Number(value)
+						: NaN;
+			if (Number.isNaN(number) || number < range.min || number > range.max)
+				throw invalid();
+			return number;
+		};
+
+		const values = new Set<number>();
+		for (const part of field.split(',')) {
+			const [rangePart = '', stepPart, ...rest] = part.split('/');
+			if (rest.length > 0) throw invalid();
+			const step = stepPart === undefined ? 1 : Number(stepPart);
+			if (!Number.isInteger(step) || step < 1) throw invalid();
+
+			let start: number;
+			let end: number;
+			if (rangePart === '*') {
+				start = range.min;
+				end = range.max;
+			} else {
+				const [from = '', to, ...extra] = rangePart.split('-');
+				if (extra.length > 0) throw invalid();
+				start = parseValue(from);
+				// `5/15` means from 5 to the end of the range, every 15
+				end =
+					to !== undefined
+						? parseValue(to)
+						: stepPart !== undefined
+							? range.max
+							: start;
+			}
+			if (start > end) throw invalid();
+			for (let value = start; value <= end; value += step) values.add(value);
+		}
+		return values;
+	}
+}
@@ -0,0 +1,234 @@
+import { LocaleError } from '../model/LocaleError';
+
+/** Maximum length of a customId allowed by Discord */
+export const CUSTOM_ID_MAX_LENGTH = 100;
+
+/** Separator between the segments of a customId */
+const SEGMENT_SEPARATOR = ';';
+
+/** Separator between a key and its value */
+const VALUE_SEPARATOR = '=';
+
+/** Segment marking the compact (positional) encoding */
+const COMPACT_MARKER = '~';
+
+/** Prefix of the segment carrying an InteractionStateStore token */
+const STATE_MARKER = '@';
+
+/** Characters escaped in customId segments */
+const ESCAPED_CHARACTERS: Record<string, string> = {
+	'%': '%25',
+	';': '%3B',
+	'=': '%3D',
+};
+
+/**
+ * Types a payload field can be decoded to
+ */
+export type PayloadFieldType = 'string' | 'number' | 'boolean';
+
+/**
+ * Schema describing the payload carried by a customId
+ * The key order is used by the compact encoding, don't reorder keys of a schema already in use
+ */
+export type PayloadSchema = Record<string, PayloadFieldType>;
+
+/**
+ * Typed payload described by a schema
+ */
+export type PayloadOf<S extends PayloadSchema> = {
+	[K in keyof S]: S[K] extends 'number'
+		? number
+		: S[K] extends 'boolean'
+			? boolean
+			: string;
+};
+
+/**
+ * Escapes the characters that have a meaning in a customId
+ * @param value The value to escape
+ * @returns The escaped value
+ */
+const escape = (value: string): string =>
+	value.replace(/[%;=]/g, (char) => ESCAPED_CHARACTERS[char]!);
+
+/**
+ * Reverts the escaping done by escape()
+ * Other percent sequences are kept as is so that legacy customIds decode unchanged
+ * @param value The value to unescape
+ * @returns The unescaped value
+ */
+const unescape = (value: string): string =>
+	value.replace(/%(25|3B|3D)/gi, (sequence) => decodeURIComponent(sequence));
+
+/**
+ * Serializes a payload value
+ * @param value The value to serialize
+ * @returns The serialized value, empty for null or undefined
+ */
+const serializeValue = (value: unknown): string => {
+	if (value === undefined || value === null) return '';
+	if (typeof value === 'boolean') return value ? '1' : '0';
+	return escape(String(value));
+};
+
+/**
+ * Coerces a serialized value to the type declared by the schema
+ * @param value The serialized value
+ * @param type The declared type, string if not declared
+ * @returns The coerced value, undefined for empty numbers and booleans
+ */
+const coerceValue = (value: string, type?: PayloadFieldType): unknown => {
+	const raw = unescape(value);
+	switch (type) {
+		case 'number': {
+			if (raw === '') return undefined;
+			const number = Number(raw);
+			return Number.isNaN(number) ? undefined : number;
+		}
+		case 'boolean':
+			if (raw === '') return undefined;
+			return raw === '1' || raw === 'true';
+		default:
+			return raw;
+	}
+};
+
+/**
+ * Builds a customId with keys (`prefix;key=value;...`)
+ * @param prefix The command prefix
+ * @param payload The payload to encode
+ * @returns The customId
+ */
+const encodeWithKeys = (
+	prefix: string,
+	payload: Record<string, unknown>
+): string =>
+	[
+		escape(prefix),
+		...Object.entries(payload)
+			.filter(([, value]) => value !== undefined && value !== null)
+			.map(
+				([key, value]) =>
+					`${escape(key)}${VALUE_SEPARATOR}${serializeValue(value)}`
+			),
+	].join(SEGMENT_SEPARATOR);
+
+/**
+ * Builds a compact customId without keys (`prefix;~;value;...`), values follow the schema key order
+ * @param prefix The command prefix
+ * @param payload The payload to encode
+ * @param schema The schema giving the value order
+ * @returns The customId
+ */
+const encodeCompact = (
+	prefix: string,
+	payload: Record<string, unknown>,
+	schema: PayloadSchema
+): string =>
+	[
+		escape(prefix),
+		COMPACT_MARKER,
+		...Object.keys(schema).map((key) => serializeValue(payload[key])),
+	].join(SEGMENT_SEPARATOR);
+
+/**
+ * Encodes a customId from a command prefix and a payload
+ * Falls back to the compact encoding when the keyed one exceeds Discord's limit and a schema is provided
+ * @param prefix The command prefix (e.g. `vote` for a ButtonCommand with the `button_vote` alias)
+ * @param payload The payload to encode
+ * @param schema Optional schema of the payload
+ * @returns The customId
+ * @throws LocaleError if the customId exceeds Discord's limit even once compacted
+ */
+export const encodeCustomId = (
+	prefix: string,
+	payload: Record<string, unknown> = {},
+	schema?: PayloadSchema
+): string => {
+	let customId = encodeWithKeys(prefix, payload);
+	if (customId.length > CUSTOM_ID_MAX_LENGTH && schema)
+		customId = encodeCompact(prefix, payload, schema);
+
+	if (customId.length > CUSTOM_ID_MAX_LENGTH)
+		throw new LocaleError('error.discord.custom_id_too_long', {
+			prefix,
+			length: `${customId.length}`,
+			max: `${CUSTOM_ID_MAX_LENGTH}`,
+		});
+	return customId;
+};
+
+/**
+ * Encodes a customId whose payload is kept in an InteractionStateStore (`prefix;@token`)
+ * @param prefix The command prefix
+ * @param token The token the payload is stored under
+ * @returns The customId
+ * @throws LocaleError if the customId exceeds Discord's limit
+ */
+export const encodeStateCustomId = (prefix: string, token: string): string => {
+	const customId = `${escape(prefix)}${SEGMENT_SEPARATOR}${STATE_MARKER}${token}`;
+	if (customId.length > CUSTOM_ID_MAX_LENGTH)
+		throw new LocaleError('error.discord.custom_id_too_long', {
+			prefix,
+			length: `${customId.length}`,
+			max: `${CUSTOM_ID_MAX_LENGTH}`,
+		});
+	return customId;
+};
+
+/**
+ * Gets the InteractionStateStore token carried by a customId
+ * @param customId The customId
+ * @returns The token, or undefined if the payload is encoded in the customId itself
+ */
+export const getCustomIdStateToken = (customId: string): string | undefined => {
+	const segment = customId.split(SEGMENT_SEPARATOR)[1];
+	return segment?.startsWith(STATE_MARKER) && !segment.includes(VALUE_SEPARATOR)
+		? segment.slice(STATE_MARKER.length)
+		: undefined;
+};
+
+/**
+ * Gets the command prefix of a customId without decoding its payload
+ * @param customId The customId
+ * @returns The command prefix
+ */
+export const getCustomIdPrefix = (customId: string): string =>
+	unescape(customId.split(SEGMENT_SEPARATOR)[0] ?? '');
+
+/**
+ * Decodes the payload of a customId
+ * Values are coerced to the types declared by the schema, undeclared keys are kept as strings.
+ * Legacy `key:=value` segments are still understood.
+ * @param customId The customId
+ * @param schema Optional schema of the payload, required to decode compact customIds
+ * @returns The command prefix and the decoded payload
+ */
+export const decodeCustomId = (
+	customId: string,
+	schema?: PayloadSchema
+): { prefix: string; payload: Record<string, unknown> } => {
+	const [prefix = '', ...segments] = customId.split(SEGMENT_SEPARATOR);
+	const payload: Record<string, unknown> = {};
+
+	if (segments[0] === COMPACT_MARKER) {
+		const values = segments.slice(1);
+		Object.entries(schema ?? {}).forEach(([key, type], index) => {
+			const value = coerceValue(values[index] ?? '', type);
+			if (value !== undefined) payload[key] = value;
+		});
+		return { prefix: unescape(prefix), payload };
+	}
+
+	for (const segment of segments) {
+		const separatorIndex = segment.indexOf(VALUE_SEPARATOR);
+		if (separatorIndex <= 0) continue;
+
+		// Legacy format used `key:=value`
+		const key = unescape(segment.slice(0, separatorIndex).replace(/:$/, ''));
+		const value = coerceValue(segment.slice(separatorIndex + 1), schema?.[key]);
+		if (key && value !== undefined) payload[key] = value;
+	}
+	return { prefix: unescape(prefix), payload };
+};
@@ -0,0 +1,198 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * How locale files are validated when the bot starts
+ * - `strict` : inconsistencies prevent the bot from starting
+ * - `warn` : inconsistencies are logged
+ * - `off` : locale files are not validated
+ */
+export type LocaleValidationMode = 'strict' | 'warn' | 'off';
+
+/**
+ * Enum representing the kinds of inconsistency between locale files
+ */
+export enum LocaleIssueType {
+	/** The locale file doesn't exist */
+	MISSING_FILE = 'missing_file',
+
+	/** The locale file isn't valid JSON */
+	INVALID_FILE = 'invalid_file',
+
+	/** A key of the default locale is missing */
+	MISSING_KEY = 'missing_key',
+
+	/** A key doesn't exist in the default locale */
+	EXTRA_KEY = 'extra_key',
+
+	/** A translation doesn't use the same placeholders as the default locale */
+	PLACEHOLDER_MISMATCH = 'placeholder_mismatch',
+}
+
+/**
+ * Interface representing an inconsistency found in a locale file
+ */
+export interface LocaleIssue {
+	/**
+	 * Locale the issue was found in
+	 */
+	locale: string;
+
+	/**
+	 * Key concerned by the issue, using object notation (empty for file issues)
+	 */
+	key: string;
+
+	/**
+	 * Kind of issue
+	 */
+	type: LocaleIssueType;
+
+	/**
+	 * Optional details (e.g. the placeholders that differ)
+	 */
+	details?: string;
+}
+
+/** Pattern of the `{{placeholder}}` replacements of a translation */
+const PLACEHOLDER_PATTERN = /{{\s*([\w.]+)\s*}}/g;
+
+/**
+ * Flattens a locale catalog into translations keyed with object notation
+ * @param catalog The locale catalog
+ * @param prefix Prefix of the keys of the catalog
+ * @returns The translations keyed with object notation
+ */
+const flatten = (
+	catalog: Record<string, unknown>,
+	prefix: string = ''
+): Map<string, string> => {
+	const res = new Map<string, string>();
+	for (const [key, value] of Object.entries(catalog)) {
+		const fullKey = prefix ? `${prefix}.${key}` : key;
+		if (value && typeof value === 'object' && !Array.isArray(value)) {
+			flatten(value as Record<string, unknown>, fullKey).forEach((v, k) =>
+				res.set(k, v)
+			);
+		} else {
+			res.set(fullKey, String(value));
+		}
+	}
+	return res;
+};
+
+/**
+ * Gets the placeholders used by a translation
+ * @param translation The translation
+ * @returns The sorted placeholder names
+ */
+const getPlaceholders = (translation: string): string[] =>
+	[
+		...new Set(
+			[...translation.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]!)
+		),
+	].sort();
+
+/**
+ * Compares locale catalogs against the catalog of the default locale
+ * @param catalogs The catalogs keyed by locale, the default one included
+ * @param defaultLocale The locale the other ones are compared against
+ * @returns The issues found, empty when every catalog matches the default one
+ */
+export const validateCatalogs = (
+	catalogs: Record<string, Record<string, unknown>>,
+	defaultLocale: string
+): LocaleIssue[] => {
+	const reference = catalogs[defaultLocale];
+	if (!reference)
+		return [
+			{ locale: defaultLocale, key: '', type: LocaleIssueType.MISSING_FILE },
+		];
+
+	const issues: LocaleIssue[] = [];
+	const expected = flatten(reference);
+	for (const [locale, catalog] of Object.entries(catalogs)) {
+		if (locale === defaultLocale) continue;
+		const translations = flatten(catalog);
+
+		for (const [key, referenceTranslation] of expected) {
+			const translation = translations.get(key);
+			if (translation === undefined) {
+				issues.push({ locale, key, type: LocaleIssueType.MISSING_KEY });
+				continue;
+			}
+
+			const expectedPlaceholders = getPlaceholders(referenceTranslation);
+			const placeholders = getPlaceholders(translation);
+			if (expectedPlaceholders.join() !== placeholders.join())
+				issues.push({
+					locale,
+					key,
+					type: LocaleIssueType.PLACEHOLDER_MISMATCH,
+					details: `expected [${expectedPlaceholders.join(', ')}], found [${placeholders.join(', ')}]`,
+				});
+		}
+
+		for (const key of translations.keys()) {
+			if (!expected.has(key))
+				issues.push({ locale, key, type: LocaleIssueType.EXTRA_KEY });
+		}
+	}
+	return issues;
+};
+
+/**
+ * Loads every locale file of a directory and compares them against the default locale
+ * @param directory The directory containing the `<locale>.json` files
+ * @param defaultLocale The locale the other ones are compared against
+ * @param locales Optional locales that must have a file (e.g. the available locales)
+ * @returns The issues found, empty when every locale file matches the default one
+ */
+export const validateLocales = (
+	directory: string,
+	defaultLocale: string,
+	locales: string[] = []
+): LocaleIssue[] => {
+	const issues: LocaleIssue[] = [];
+	const catalogs: Record<string, Record<string, unknown>> = {};
+
+	const files = fs.existsSync(directory)
+		? fs.readdirSync(directory).filter((file) => file.endsWith('.json'))
+		: [];
+	for (const file of files) {
+		const locale = path.basename(file, '.json');
+		try {
+			catalogs[locale] = JSON.parse(
+				fs.readFileSync(path.join(directory, file), 'utf-8')
+			);
+		} catch (e: any) {
+			issues.push({
+				locale,
+				key: '',
+				type: LocaleIssueType.INVALID_FILE,
+				details: e.message,
+			});
+		}
+	}
+
+	for (const locale of locales) {
+		if (!files.includes(`${locale}.json`) && locale !== defaultLocale)
+			issues.push({ locale, key: '', type: LocaleIssueType.MISSING_FILE });
+	}
+	// The default locale is reported by validateCatalogs when missing
+	if (issues.some((issue) => issue.locale === defaultLocale)) return issues;
+	return [...issues, ...validateCatalogs(catalogs, defaultLocale)];
+};
+
+/**
+ * Formats locale issues for logs, one issue per line
+ * @param issues The issues to format
+ * @returns The formatted issues
+ */
+export const formatLocaleIssues = (issues: LocaleIssue[]): string =>
+	issues
+		.map(
+			(issue) =>
+				`${issue.locale}${issue.key ? ` ${issue.key}` : ''} : ${issue.type}${issue.details ? ` (${issue.details})` : ''}`
+		)
+		.join('\n');
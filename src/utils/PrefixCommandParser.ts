@@ -0,0 +1,438 @@
+import { I18n } from 'i18n';
+import {
+	ApplicationCommandOptionType,
+	Attachment,
+	CommandInteractionOption,
+	Message,
+} from 'discord.js';
+import { LocaleError } from '../model/LocaleError';
+import type {
+	AnyCommandInteraction,
+	AnyCommandOption,
+	Command,
+} from '../model/SimpleDiscordModels';
+
+/**
+ * Options of the prefix (message-based) commands
+ */
+export interface PrefixCommandOptions {
+	/** Prefixes starting a command, e.g. `!` for `!bet 10` (`!` by default) */
+	prefixes?: string[];
+
+	/** Whether a mention of the bot also starts a command, e.g. `@Bot bet 10` (true by default) */
+	mention?: boolean;
+}
+
+/** Values accepted for boolean options */
+const BOOLEAN_VALUES: Record<string, boolean> = {
+	true: true,
+	yes: true,
+	on: true,
+	'1': true,
+	false: false,
+	no: false,
+	off: false,
+	'0': false,
+};
+
+/** Named argument, e.g. `amount:10` */
+const NAMED_ARGUMENT = /^([\p{L}\p{N}_-]+):(.+)$/su;
+
+/**
+ * Gets the command line following the prefix or the bot mention of a message
+ * @param content The message content
+ * @param options The prefix options
+ * @param botId The ID of the bot, used to detect mentions
+ * @returns The command line, or undefined if the message isn't a command
+ */
+export const stripPrefix = (
+	content: string,
+	options: PrefixCommandOptions,
+	botId?: string
+): string | undefined => {
+	const prefixes = options.prefixes ?? ['!'];
+	const mentions =
+		(options.mention ?? true) && botId ? [`<@${botId}>`, `<@!${botId}>`] : [];
+	const start = [...mentions, ...prefixes].find((prefix) =>
+		content.startsWith(prefix)
+	);
+	if (start === undefined) return undefined;
+
+	const line = content.slice(start.length).trim();
+	return line ? line : undefined;
+};
+
+/**
+ * Splits a command line into arguments, keeping quoted arguments together
+ * @param line The command line
+ * @returns The arguments, unquoted
+ */
+export const tokenize = (line: string): string[] => {
+	const tokens: string[] = [];
+	const pattern = /"((?:\\.|[^"\\])*)"|'((?:\\.|[^'\\])*)'|(\S+)/g;
+	for (const match of line.matchAll(pattern)) {
+		const quoted = match[1] ?? match[2];
+		tokens.push(
+			quoted !== undefined ? quoted.replace(/\\(.)/g, '$1') : match[3]!
+		);
+	}
+	return tokens;
+};
+
+/**
+ * Gets the snowflake of a mention or a raw ID
+ * @param token The argument
+ * @param pattern The mention pattern, capturing the ID
+ * @returns The ID, or undefined if the argument isn't a mention nor an ID
+ */
+const getSnowflake = (token: string, pattern: RegExp): string | undefined =>
+	pattern.exec(token)?.[1] ?? (/^\d{17,20}$/.test(token) ? token : undefined);
+
+/**
+ * Checks the length or the value of a coerced option against its limits
+ * @param option The declared option
+ * @param value The coerced value
+ * @param i18nInstance Optional i18n instance used for the error messages
+ * @throws LocaleError if the value is out of the limits
+ */
+const checkLimits = (
+	option: AnyCommandOption,
+	value: string | number,
+	i18nInstance?: I18n
+) => {
+	if (typeof value === 'string') {
+		if (option.min_length !== undefined && value.length < option.min_length)
+			throw new LocaleError(
+				'error.prefix.too_short',
+				{
+					option: option.name,
+					min: `${option.min_length}`,
+				},
+				i18nInstance
+			);
+		if (option.max_length !== undefined && value.length > option.max_length)
+			throw new LocaleError(
+				'error.prefix.too_long',
+				{
+					option: option.name,
+					max: `${option.max_length}`,
+				},
+				i18nInstance
+			);
+		return;
+	}
+	if (option.min_value !== undefined && value < option.min_value)
+		throw new LocaleError(
+			'error.prefix.too_small',
+			{
+				option: option.name,
+				min: `${option.min_value}`,
+			},
+			i18nInstance
+		);
+	if (option.max_value !== undefined && value > option.max_value)
+		throw new LocaleError(
+			'error.prefix.too_large',
+			{
+				option: option.name,
+				max: `${option.max_value}`,
+			},
+			i18nInstance
+		);
+};
+
+/**
+ * Coerces an argument to the type of the option it fills
+ * @param option The declared option
+ * @param token The argument
+ * @param message The message, used to fetch mentioned entities
+ * @param i18nInstance Optional i18n instance used for the error messages
+ * @returns The option data, as Discord would send it for a slash command
+ * @throws LocaleError if the argument can't be coerced or is out of the option limits
+ */
+const coerceOption = async (
+	option: AnyCommandOption,
+	token: string,
+	message: Message,
+	i18nInstance?: I18n
+): Promise<CommandInteractionOption> => {
+	const invalid = () =>
+		new LocaleError(
+			'error.prefix.invalid_argument',
+			{
+				option: option.name,
+				value: token,
+			},
+			i18nInstance
+		);
+	const data = { name: option.name, type: option.type };
+
+	switch (option.type) {
+		case ApplicationCommandOptionType.User:
+		case ApplicationCommandOptionType.Mentionable: {
+			const id = getSnowflake(token, /^<@!?(\d+)>$/);
+			const user = id
+				? await message.client.users.fetch(id).catch(() => undefined)
+				: undefined;
+			if (user) {
+				const member = await message.guild?.members
+					.fetch(user.id)
+					.catch(() => undefined);
+				return { ...data, value: user.id, user, member };
+			}
+			if (option.type === ApplicationCommandOptionType.User) throw invalid();
+			const roleId = getSnowflake(token, /^<@&(\d+)>$/);
+			const role = roleId
+				? await message.guild?.roles.fetch(roleId).catch(() => undefined)
+				: undefined;
+			if (!role) throw invalid();
+			return { ...data, value: role.id, role };
+		}
+		case ApplicationCommandOptionType.Role: {
+			const id = getSnowflake(token, /^<@&(\d+)>$/);
+			const role = id
+				? await message.guild?.roles.fetch(id).catch(() => undefined)
+				: undefined;
+			if (!role) throw invalid();
+			return { ...data, value: role.id, role };
+		}
+		case ApplicationCommandOptionType.Channel: {
+			const id = getSnowflake(token, /^<#(\d+)>$/);
+			const channel = id
+				? await message.client.channels.fetch(id).catch(() => null)
+				: null;
+			// Every channel type is allowed when none is set, as for slash commands
+			const channelTypes = option.channel_types ?? [];
+			if (
+				!channel ||
+				(channelTypes.length > 0 && !channelTypes.includes(channel.type))
+			)
+				throw invalid();
+			return {
+				...data,
+				value: channel.id,
+				channel: channel as CommandInteractionOption['channel'],
+			};
+		}
+		case ApplicationCommandOptionType.Integer:
+		case ApplicationCommandOptionType.Number: {
+			const value = Number(token);
+			const isInteger = option.type === ApplicationCommandOptionType.Integer;
+			if (
+				token.trim() === '' ||
+				!Number.isFinite(value) ||
+				(isInteger && !Number.isInteger(value))
+			)
+				throw invalid();
+			checkLimits(option, value, i18nInstance);
+			return { ...data, value: getChoiceValue(option, value, i18nInstance) };
+		}
+		case ApplicationCommandOptionType.Boolean: {
+			const value = BOOLEAN_VALUES[token.toLowerCase()];
+			if (value === undefined) throw invalid();
+			return { ...data, value };
+		}
+		default:
+			checkLimits(option, token, i18nInstance);
+			return { ...data, value: getChoiceValue(option, token, i18nInstance) };
+	}
+};
+
+/**
+ * Matches an argument against the choices of an option, by value or by name
+ * @param option The declared option
+ * @param value The coerced argument
+ * @param i18nInstance Optional i18n instance used for the error messages
+ * @returns The value of the matching choice, or the argument if the option has no choices
+ * @throws LocaleError if the argument doesn't match any choice
+ */
+const getChoiceValue = (
+	option: AnyCommandOption,
+	value: string | number,
+	i18nInstance?: I18n
+): string | number => {
+	if (option.choices.length === 0) return value;
+	const match = option.choices.find(
+		(choice) =>
+			choice.value === value ||
+			choice.name.toLowerCase() === String(value).toLowerCase()
+	);
+	if (!match)
+		throw new LocaleError(
+			'error.prefix.invalid_choice',
+			{
+				option: option.name,
+				choices: option.choices.map((choice) => choice.name).join(', '),
+			},
+			i18nInstance
+		);
+	return match.value;
+};
+
+/**
+ * Maps the arguments of a prefix command onto the declared options of a command
+ * Arguments fill the options in order, or by name with `name:value`. The last string option
+ * takes the remaining arguments, and attachment options take the attachments of the message in order.
+ * @param command The command, whose subcommand group and subcommand are picked from the first arguments
+ * @param tokens The arguments following the command name
+ * @param message The message, used to fetch mentioned entities
+ * @param i18nInstance Optional i18n instance used for the error messages (uses global instance if not provided)
+ * @returns The option data, as Discord would send it for a slash command
+ * @throws LocaleError if an argument is invalid or missing
+ */
+export const parsePrefixOptions = async (
+	command: Command<any, AnyCommandInteraction>,
+	tokens: string[],
+	message: Message,
+	i18nInstance?: I18n
+): Promise<CommandInteractionOption[]> => {
+	const [first, second] = tokens;
+	const group = command.subcommandGroups.find(
+		(value) => value.name === first?.toLowerCase()
+	);
+	if (group) {
+		const subcommand = group.subcommands.find(
+			(value) => value.name === second?.toLowerCase()
+		);
+		if (!subcommand)
+			throw new LocaleError(
+				'error.discord.subcommand_not_found',
+				{
+					command: `${command.name} ${group.name}`,
+				},
+				i18nInstance
+			);
+		return [
+			{
+				name: group.name,
+				type: ApplicationCommandOptionType.SubcommandGroup,
+				options: [
+					{
+						name: subcommand.name,
+						type: ApplicationCommandOptionType.Subcommand,
+						options: await mapArguments(
+							subcommand.options,
+							tokens.slice(2),
+							message,
+							i18nInstance
+						),
+					},
+				],
+			},
+		];
+	}
+
+	if (command.subcommands.length > 0 || command.subcommandGroups.length > 0) {
+		const subcommand = command.subcommands.find(
+			(value) => value.name === first?.toLowerCase()
+		);
+		if (!subcommand)
+			throw new LocaleError(
+				'error.discord.subcommand_not_found',
+				{
+					command: command.name,
+				},
+				i18nInstance
+			);
+		return [
+			{
+				name: subcommand.name,
+				type: ApplicationCommandOptionType.Subcommand,
+				options: await mapArguments(
+					subcommand.options,
+					tokens.slice(1),
+					message,
+					i18nInstance
+				),
+			},
+		];
+	}
+
+	return mapArguments(command.options, tokens, message, i18nInstance);
+};
+
+/**
+ * Maps arguments onto a list of declared options
+ * @param options The declared options
+ * @param tokens The arguments
+ * @param message The message, used to fetch mentioned entities
+ * @param i18nInstance Optional i18n instance used for the error messages
+ * @returns The option data of the provided options
+ * @throws LocaleError if an argument is invalid, missing or in excess
+ */
+const mapArguments = async (
+	options: readonly AnyCommandOption[],
+	tokens: string[],
+	message: Message,
+	i18nInstance?: I18n
+): Promise<CommandInteractionOption[]> => {
+	const values = new Map<string, string>();
+	const positional: string[] = [];
+	for (const token of tokens) {
+		const named = NAMED_ARGUMENT.exec(token);
+		const option =
+			named && options.find((value) => value.name === named[1]!.toLowerCase());
+		if (option && named) values.set(option.name, named[2]!);
+		else positional.push(token);
+	}
+
+	const attachments: Attachment[] = [...message.attachments.values()];
+	const remaining = options.filter(
+		(option) =>
+			!values.has(option.name) &&
+			option.type !== ApplicationCommandOptionType.Attachment
+	);
+	remaining.forEach((option, index) => {
+		const isLast = index === remaining.length - 1;
+		const token =
+			isLast && option.type === ApplicationCommandOptionType.String
+				? positional.splice(0).join(' ')
+				: positional.shift();
+		if (token) values.set(option.name, token);
+	});
+	if (positional.length > 0)
+		throw new LocaleError(
+			'error.prefix.too_many_arguments',
+			{
+				value: positional.join(' '),
+			},
+			i18nInstance
+		);
+
+	const data: CommandInteractionOption[] = [];
+	for (const option of options) {
+		if (option.type === ApplicationCommandOptionType.Attachment) {
+			const attachment = attachments.shift();
+			if (attachment)
+				data.push({
+					name: option.name,
+					type: option.type,
+					value: attachment.id,
+					attachment,
+				});
+			else if (option.required)
+				throw new LocaleError(
+					'error.prefix.missing_argument',
+					{
+						option: option.name,
+					},
+					i18nInstance
+				);
+			continue;
+		}
+
+		const token = values.get(option.name);
+		if (token !== undefined) {
+			data.push(await coerceOption(option, token, message, i18nInstance));
+		} else if (option.required) {
+			throw new LocaleError(
+				'error.prefix.missing_argument',
+				{
+					option: option.name,
+				},
+				i18nInstance
+			);
+		}
+	}
+	return data;
+};
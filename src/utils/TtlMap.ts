@@ -0,0 +1,76 @@
+/**
+ * In-memory map whose entries expire after a time to live
+ * Expired entries are swept periodically so they don't pile up over long uptimes
+ * @template V Type of the stored values
+ */
+export class TtlMap<V> {
+	/** Stored values with their expiry timestamp */
+	private entries: Map<string, { value: V; expiresAt: number }> = new Map();
+
+	/** Timer sweeping expired entries */
+	private sweepTimer: NodeJS.Timeout | null;
+
+	/**
+	 * Creates a new TtlMap instance
+	 * @param sweepInterval Interval between sweeps of expired entries in ms
+	 */
+	constructor(sweepInterval: number = 60000) {
+		this.sweepTimer = setInterval(() => this.sweep(), sweepInterval);
+		// Don't keep the process alive only to sweep entries
+		this.sweepTimer.unref();
+	}
+
+	/**
+	 * Gets a value
+	 * @param key The key of the value
+	 * @returns The value, or undefined if missing or expired
+	 */
+	get(key: string): V | undefined {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+		if (entry.expiresAt <= Date.now()) {
+			this.entries.delete(key);
+			return undefined;
+		}
+		return entry.value;
+	}
+
+	/**
+	 * Stores a value
+	 * @param key The key of the value
+	 * @param value The value to store
+	 * @param ttl Time to live in ms
+	 */
+	set(key: string, value: V, ttl: number): void {
+		this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+	}
+
+	/**
+	 * Deletes a value
+	 * @param key The key of the value
+	 */
+	delete(key: string): void {
+		this.entries.delete(key);
+	}
+
+	/**
+	 * Removes every expired entry
+	 */
+	private sweep(): void {
+		const now = Date.now();
+		for (const [key, entry] of this.entries) {
+			if (entry.expiresAt <= now) this.entries.delete(key);
+		}
+	}
+
+	/**
+	 * Stops sweeping and clears every entry
+	 */
+	dispose(): void {
+		if (this.sweepTimer !== null) {
+			clearInterval(this.sweepTimer);
+			this.sweepTimer = null;
+		}
+		this.entries.clear();
+	}
+}
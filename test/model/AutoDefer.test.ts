@@ -0,0 +1,132 @@
+import { BaseInteraction, MessageFlags } from 'discord.js';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AutoDefer } from '../../src/model/AutoDefer';
+
+/** Method answering an interaction */
+type Method = (options?: unknown) => Promise<void>;
+
+/**
+ * Creates a repliable interaction recording how it's answered
+ * @param component Whether the interaction comes from a message component
+ * @returns The interaction, and the original methods of the interaction
+ */
+const createInteraction = (component = false) => {
+	const calls = {
+		reply: vi.fn<Method>(),
+		editReply: vi.fn<Method>(),
+		followUp: vi.fn<Method>(),
+		deleteReply: vi.fn<Method>(),
+		deferReply: vi.fn<Method>(),
+		update: vi.fn<Method>(),
+		deferUpdate: vi.fn<Method>(),
+		showModal: vi.fn<Method>(),
+	};
+	const interaction = {
+		...calls,
+		deferred: false,
+		replied: false,
+		createdTimestamp: Date.now(),
+		isRepliable: () => true,
+		isMessageComponent: () => component,
+	};
+	return {
+		calls,
+		interaction: interaction as typeof interaction & BaseInteraction,
+	};
+};
+
+describe('AutoDefer', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('turns the first reply into an edit of the deferred reply, then follows up', async () => {
+		const { calls, interaction } = createInteraction();
+		await AutoDefer.immediate(true).arm(interaction);
+
+		expect(calls.deferReply).toHaveBeenCalledWith({ ephemeral: true });
+		await interaction.reply({ content: 'first', ephemeral: true });
+		await interaction.reply({ content: 'second' });
+		await interaction.deferReply();
+
+		expect(calls.editReply).toHaveBeenCalledWith({ content: 'first' });
+		expect(calls.followUp).toHaveBeenCalledWith({ content: 'second' });
+		expect(calls.reply).not.toHaveBeenCalled();
+		expect(calls.deferReply).toHaveBeenCalledTimes(1);
+	});
+
+	it('keeps ephemeral replies private after a public deferral', async () => {
+		const { calls, interaction } = createInteraction();
+		await AutoDefer.immediate().arm(interaction);
+
+		const options = { content: 'secret', flags: MessageFlags.Ephemeral };
+		await interaction.reply(options);
+
+		expect(calls.deleteReply).toHaveBeenCalled();
+		expect(calls.followUp).toHaveBeenCalledWith(options);
+		expect(calls.editReply).not.toHaveBeenCalled();
+	});
+
+	it('defers components with an update, edited by update and followed up by reply', async () => {
+		const { calls, interaction } = createInteraction(true);
+		await AutoDefer.immediate().arm(interaction);
+
+		expect(calls.deferUpdate).toHaveBeenCalled();
+		await interaction.update({ content: 'updated' });
+		await interaction.reply({ content: 'reply' });
+
+		expect(calls.editReply).toHaveBeenCalledWith({ content: 'updated' });
+		expect(calls.followUp).toHaveBeenCalledWith({ content: 'reply' });
+		expect(calls.update).not.toHaveBeenCalled();
+	});
+
+	it('defers once the delay is over if the command has not answered', async () => {
+		vi.useFakeTimers();
+		const { calls, interaction } = createInteraction();
+		await AutoDefer.beforeDeadline(false, 2500).arm(interaction);
+
+		await vi.advanceTimersByTimeAsync(2499);
+		expect(calls.deferReply).not.toHaveBeenCalled();
+		await vi.advanceTimersByTimeAsync(1);
+		expect(calls.deferReply).toHaveBeenCalledWith({ ephemeral: false });
+
+		await interaction.reply({ content: 'late' });
+		expect(calls.editReply).toHaveBeenCalledWith({ content: 'late' });
+	});
+
+	it('neither defers a command answering before the delay nor after disarming', async () => {
+		vi.useFakeTimers();
+		const answered = createInteraction();
+		await AutoDefer.beforeDeadline().arm(answered.interaction);
+		await answered.interaction.reply({ content: 'fast' });
+
+		const disarmed = createInteraction();
+		const disarm = await AutoDefer.beforeDeadline().arm(disarmed.interaction);
+		disarm();
+
+		await vi.advanceTimersByTimeAsync(3000);
+		expect(answered.calls.reply).toHaveBeenCalledWith({ content: 'fast' });
+		expect(answered.calls.deferReply).not.toHaveBeenCalled();
+		expect(disarmed.calls.deferReply).not.toHaveBeenCalled();
+	});
+
+	it('answers with the original methods when the deferral fails', async () => {
+		const { calls, interaction } = createInteraction();
+		calls.deferReply.mockRejectedValueOnce(new Error('Unknown interaction'));
+		await AutoDefer.immediate().arm(interaction);
+
+		await interaction.reply({ content: 'reply' });
+		expect(calls.reply).toHaveBeenCalledWith({ content: 'reply' });
+		expect(calls.editReply).not.toHaveBeenCalled();
+	});
+
+	it('rejects modals once the interaction is deferred', async () => {
+		const { calls, interaction } = createInteraction(true);
+		await AutoDefer.immediate().arm(interaction);
+
+		await expect(interaction.showModal({})).rejects.toThrow(
+			'AutoDefer.beforeDeadline'
+		);
+		expect(calls.showModal).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { CommandScope } from '../../src/model/CommandScope';
+
+describe('CommandScope.includes', () => {
+	it('includes every guild and DMs for a global scope', () => {
+		expect(CommandScope.global().includes('guild')).toBe(true);
+		expect(CommandScope.global().includes(null)).toBe(true);
+	});
+
+	it('only includes the listed guilds for a guild scope', () => {
+		const scope = CommandScope.guilds('a', 'b');
+
+		expect(scope.includes('b')).toBe(true);
+		expect(scope.includes('c')).toBe(false);
+		expect(scope.includes(null)).toBe(false);
+	});
+
+	it('only includes the development guild for a dev scope', () => {
+		expect(CommandScope.dev().includes('dev', 'dev')).toBe(true);
+		expect(CommandScope.dev().includes('guild', 'dev')).toBe(false);
+		expect(CommandScope.dev().includes(null, 'dev')).toBe(false);
+		expect(CommandScope.dev().includes(null)).toBe(false);
+	});
+});
@@ -0,0 +1,158 @@
+import {
+	ActionRowBuilder,
+	ButtonBuilder,
+	ButtonInteraction,
+	Client,
+	RepliableInteraction,
+} from 'discord.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InvocationContext } from '../../src/model/InvocationContext';
+import { Paginator } from '../../src/model/Paginator';
+import { decodeCustomId } from '../../src/utils/CustomIdCodec';
+
+/** Message sent or edited by the paginator */
+interface PaginatorMessage {
+	content?: string;
+	embeds?: unknown[];
+	components: ActionRowBuilder<ButtonBuilder>[];
+}
+
+/**
+ * Creates an interaction recording the messages it sends
+ * @param userId The ID of the user of the interaction
+ * @returns The interaction
+ */
+const createInteraction = (userId = 'owner') => ({
+	user: { id: userId },
+	deferred: false,
+	replied: false,
+	reply: vi.fn<(message: PaginatorMessage) => Promise<void>>(),
+	update: vi.fn<(message: PaginatorMessage) => Promise<void>>(),
+	editReply: vi.fn<(message: Partial<PaginatorMessage>) => Promise<void>>(),
+});
+
+/**
+ * Gets the state of the buttons of a message
+ * @param message The message
+ * @returns The session ID, the label of the page button and the disabled state of each button
+ */
+const getButtons = (message: Partial<PaginatorMessage>) => {
+	const buttons = message.components![0]!.components.map(
+		(button) =>
+			button.data as { custom_id: string; label: string; disabled: boolean }
+	);
+	return {
+		session: decodeCustomId(buttons[0]!.custom_id).payload.session as string,
+		label: buttons[2]!.label,
+		disabled: buttons.map((button) => button.disabled),
+	};
+};
+
+const context = { t: (key: string) => key } as InvocationContext;
+
+describe('Paginator', () => {
+	let paginator: Paginator<unknown>;
+	let origin: ReturnType<typeof createInteraction>;
+
+	/**
+	 * Clicks a button of the paginated message
+	 * @param action The action of the button
+	 * @param userId The ID of the user clicking
+	 * @returns The button interaction
+	 */
+	const click = async (action: string, userId = 'owner') => {
+		const interaction = createInteraction(userId);
+		const { session } = getButtons(origin.reply.mock.calls[0]![0]);
+		await paginator.execute(
+			interaction as unknown as ButtonInteraction,
+			{} as Client,
+			undefined,
+			{ session, action },
+			undefined,
+			context
+		);
+		return interaction;
+	};
+
+	beforeEach(async () => {
+		vi.useFakeTimers();
+		paginator = new Paginator({ timeout: 60000 });
+		origin = createInteraction();
+		await paginator.reply(origin as unknown as RepliableInteraction, [
+			'first page',
+			{ title: 'second page' },
+			'third page',
+		]);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('replies with the first page and its buttons', () => {
+		const message = origin.reply.mock.calls[0]![0];
+
+		expect(message.content).toBe('first page');
+		expect(message.embeds).toEqual([]);
+		expect(getButtons(message)).toMatchObject({
+			label: '1 / 3',
+			disabled: [true, true, true, false, false],
+		});
+	});
+
+	it('stays within the first and last pages', async () => {
+		const prev = await click('prev');
+		expect(getButtons(prev.update.mock.calls[0]![0]).label).toBe('1 / 3');
+
+		const last = await click('last');
+		expect(getButtons(last.update.mock.calls[0]![0])).toMatchObject({
+			label: '3 / 3',
+			disabled: [false, false, true, true, true],
+		});
+
+		const next = await click('next');
+		expect(getButtons(next.update.mock.calls[0]![0]).label).toBe('3 / 3');
+
+		const first = await click('first');
+		expect(getButtons(first.update.mock.calls[0]![0]).label).toBe('1 / 3');
+	});
+
+	it('clears the text of a previous page when showing an embed', async () => {
+		const next = await click('next');
+
+		expect(next.update.mock.calls[0]![0]).toMatchObject({
+			content: '',
+			embeds: [{ title: 'second page' }],
+		});
+	});
+
+	it('only lets the owner browse the pages', async () => {
+		const other = await click('next', 'other');
+
+		expect(other.update).not.toHaveBeenCalled();
+		expect(other.reply).toHaveBeenCalledWith({
+			content: 'error.discord.paginator_not_owner',
+			ephemeral: true,
+		});
+	});
+
+	it('disables the buttons with the last click once inactive', async () => {
+		await vi.advanceTimersByTimeAsync(30000);
+		const next = await click('next');
+		await vi.advanceTimersByTimeAsync(59999);
+		expect(next.editReply).not.toHaveBeenCalled();
+
+		await vi.advanceTimersByTimeAsync(1);
+		expect(origin.editReply).not.toHaveBeenCalled();
+		expect(getButtons(next.editReply.mock.calls[0]![0])).toMatchObject({
+			label: '2 / 3',
+			disabled: [true, true, true, true, true],
+		});
+
+		const expired = await click('next');
+		expect(expired.reply).toHaveBeenCalledWith({
+			content: 'error.discord.interaction_expired',
+			ephemeral: true,
+		});
+	});
+});
@@ -0,0 +1,421 @@
+import {
+	AutocompleteInteraction,
+	BaseInteraction,
+	ChannelType,
+	Client,
+	PermissionFlagsBits,
+} from 'discord.js';
+import { I18n } from 'i18n';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CommandContext } from '../../src/model/CommandContext';
+import { Cooldown } from '../../src/model/Cooldown';
+import { Middleware } from '../../src/model/Middleware';
+import { ModalDefinition } from '../../src/model/ModalDefinition';
+import { Paginator } from '../../src/model/Paginator';
+import {
+	ButtonCommand,
+	Command,
+	CommandList,
+	CommandOption,
+	ModalSubmitCommand,
+	SelectMenuCommand,
+	SubCommand,
+} from '../../src/model/SimpleDiscordModels';
+
+/**
+ * Creates an autocomplete interaction focused on a value
+ * @param value The value typed by the user
+ * @param userId The ID of the user typing
+ * @param target Optional command, subcommand and option the value is typed in
+ * @returns The interaction
+ */
+const createAutocomplete = (
+	value: string,
+	userId = 'user',
+	target: { command?: string; subcommand?: string; option?: string } = {}
+) =>
+	({
+		commandName: target.command,
+		guildId: 'guild',
+		user: { id: userId },
+		responded: false,
+		isAutocomplete: () => true,
+		isChatInputCommand: () => false,
+		isModalSubmit: () => false,
+		isAnySelectMenu: () => false,
+		isRepliable: () => false,
+		options: {
+			getSubcommandGroup: () => null,
+			getSubcommand: () => target.subcommand ?? null,
+			getFocused: () => ({ name: target.option, value }),
+		},
+		respond: vi.fn(async () => {}),
+	}) as unknown as AutocompleteInteraction & {
+		respond: ReturnType<typeof vi.fn>;
+	};
+
+/**
+ * Creates a chat input interaction answering with ephemeral replies
+ * @param init Optional guild, user and permissions of the interaction, in a guild by default
+ * @returns The interaction
+ */
+const createChatInput = (
+	init: { guildId?: string | null; userId?: string; permissions?: bigint } = {}
+) =>
+	({
+		commandName: 'ping',
+		guildId: init.guildId === undefined ? 'guild' : init.guildId,
+		channel: { type: ChannelType.DM, recipientId: init.userId ?? 'user' },
+		user: { id: init.userId ?? 'user' },
+		member: null,
+		memberPermissions:
+			init.permissions === undefined
+				? null
+				: { has: (permission: bigint) => permission === init.permissions },
+		deferred: false,
+		replied: false,
+		isAutocomplete: () => false,
+		isChatInputCommand: () => true,
+		isModalSubmit: () => false,
+		isAnySelectMenu: () => false,
+		isRepliable: () => true,
+		options: {
+			getSubcommandGroup: () => null,
+			getSubcommand: () => null,
+		},
+		reply: vi.fn(async () => {}),
+		followUp: vi.fn(async () => {}),
+	}) as unknown as BaseInteraction & { reply: ReturnType<typeof vi.fn> };
+
+/** i18n instance answering with the keys, to assert which message is sent */
+const keys = {
+	__: ({ phrase }: { phrase: string }) => phrase,
+	getLocale: () => 'en',
+} as unknown as I18n;
+
+const client = {} as Client;
+
+describe('CommandOption autocomplete', () => {
+	const games = ['Apex Legends', 'Valorant', 'Overwatch'];
+	const options: CommandOption<string>[] = [];
+
+	/**
+	 * Creates an option completed from a handler
+	 * @param handler The autocomplete handler
+	 * @param cacheTtl Optional duration the candidates are cached for
+	 * @returns The option
+	 */
+	const createOption = (
+		handler: () => readonly string[],
+		cacheTtl?: number
+	) => {
+		const option = CommandOption.string('game', 'Game').withAutocomplete(
+			handler,
+			{ cacheTtl }
+		);
+		options.push(option);
+		return option;
+	};
+
+	afterEach(() => {
+		options.splice(0).forEach((option) => option.dispose());
+	});
+
+	it('responds with the candidates matching the typed value', async () => {
+		const handler = vi.fn(() => games);
+		const option = createOption(handler);
+		const interaction = createAutocomplete('val');
+
+		await option.respond(interaction, client, 'service');
+		expect(handler).toHaveBeenCalledWith({
+			query: 'val',
+			interaction,
+			client,
+			service: 'service',
+		});
+		expect(interaction.respond).toHaveBeenCalledWith([
+			{ name: 'Valorant', value: 'Valorant' },
+		]);
+	});
+
+	it('leaves the candidates unfiltered when asked to', async () => {
+		const option = CommandOption.string('game', 'Game').withAutocomplete(
+			() => games,
+			{ filter: false }
+		);
+		const interaction = createAutocomplete('val');
+
+		await option.respond(interaction, client, undefined);
+		expect(interaction.respond.mock.calls[0]![0]).toHaveLength(3);
+	});
+
+	it('caches the candidates per user until disposed', async () => {
+		const handler = vi.fn(() => games);
+		const option = createOption(handler, 60000);
+
+		await option.respond(createAutocomplete('a'), client, undefined);
+		const interaction = createAutocomplete('ov');
+		await option.respond(interaction, client, undefined);
+		expect(handler).toHaveBeenCalledTimes(1);
+		expect(interaction.respond).toHaveBeenCalledWith([
+			{ name: 'Overwatch', value: 'Overwatch' },
+		]);
+
+		await option.respond(createAutocomplete('a', 'other'), client, undefined);
+		expect(handler).toHaveBeenCalledTimes(2);
+
+		option.dispose();
+		await option.respond(createAutocomplete('a'), client, undefined);
+		expect(handler).toHaveBeenCalledTimes(3);
+	});
+
+	it('disposes the caches of the options of a CommandList', async () => {
+		const handler = vi.fn(() => games);
+		const option = createOption(handler, 60000);
+		const commandList = new CommandList<unknown>().push(
+			new Command({ name: 'play', options: [option] })
+		);
+
+		await option.respond(createAutocomplete('a'), client, undefined);
+		commandList.dispose();
+		await option.respond(createAutocomplete('a'), client, undefined);
+		expect(handler).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe('Command subclasses', () => {
+	it('keep the fields they are initialized with', () => {
+		const autocomplete = async () => {};
+		const modal = new ModalDefinition('modal.title', []);
+		const schema = { id: 'number' } as const;
+
+		expect(new SubCommand({ name: 'sub', autocomplete }).autocomplete).toBe(
+			autocomplete
+		);
+		expect(
+			new ModalSubmitCommand({ name: 'modal', modal, payloadSchema: schema })
+		).toMatchObject({ modal, payloadSchema: schema });
+		expect(
+			new ButtonCommand({ name: 'button', payloadSchema: schema }).payloadSchema
+		).toBe(schema);
+		expect(new Paginator({ timeout: 1000 }).timeout).toBe(1000);
+	});
+
+	it('route autocomplete interactions to the handler of a subcommand', async () => {
+		const autocomplete = vi.fn(async () => {});
+		const commandList = new CommandList<string>().push(
+			new Command({
+				name: 'bet',
+				subcommands: [
+					new SubCommand({
+						name: 'create',
+						options: [CommandOption.string('game', 'Game')],
+						autocomplete,
+					}),
+				],
+			})
+		);
+		const interaction = createAutocomplete('a', 'user', {
+			command: 'bet',
+			subcommand: 'create',
+			option: 'game',
+		});
+
+		await commandList.execute(
+			interaction,
+			client,
+			'service',
+			undefined,
+			undefined,
+			undefined,
+			'en'
+		);
+		expect(autocomplete).toHaveBeenCalledWith(interaction, client, 'service');
+		commandList.dispose();
+	});
+});
+
+describe('CommandList.execute', () => {
+	/**
+	 * Creates a command list holding a single command
+	 * @param command The command
+	 * @returns The command list
+	 */
+	const createList = (command: Command<unknown, any>) =>
+		new CommandList<unknown>().setI18n(keys).push(command);
+
+	/**
+	 * Runs a command of a list
+	 * @param commandList The command list
+	 * @param interaction The interaction running the command
+	 * @param commandName Optional name of the command, the one of the interaction otherwise
+	 */
+	const run = (
+		commandList: CommandList<unknown>,
+		interaction: BaseInteraction,
+		commandName?: string
+	) =>
+		commandList.execute(
+			interaction,
+			client,
+			undefined,
+			commandName,
+			undefined,
+			undefined,
+			'en'
+		);
+
+	it('only runs commands in their contexts', async () => {
+		const execute = vi.fn(async () => {});
+		const commandList = createList(new Command({ name: 'ping', execute }));
+
+		const dm = createChatInput({ guildId: null });
+		await run(commandList, dm);
+		expect(execute).not.toHaveBeenCalled();
+		expect(dm.reply).toHaveBeenCalledWith({
+			content: 'error.discord.no_guild_id',
+			ephemeral: true,
+		});
+
+		await run(commandList, createChatInput());
+		expect(execute).toHaveBeenCalledTimes(1);
+	});
+
+	it('runs component commands everywhere by default', async () => {
+		const execute = vi.fn(async () => {});
+		const button = new ButtonCommand({ name: 'button', execute });
+		const contexts = [
+			CommandContext.GUILD,
+			CommandContext.BOT_DM,
+			CommandContext.PRIVATE_CHANNEL,
+		];
+
+		expect(button.contexts).toEqual(contexts);
+		expect(new SelectMenuCommand().contexts).toEqual(contexts);
+		expect(new ModalSubmitCommand().contexts).toEqual(contexts);
+		await run(createList(button), createChatInput({ guildId: null }), 'button');
+		expect(execute).toHaveBeenCalled();
+		expect(
+			new ButtonCommand({ contexts: [CommandContext.GUILD] }).contexts
+		).toEqual([CommandContext.GUILD]);
+	});
+
+	it('denies users failing the guards of the command', async () => {
+		const execute = vi.fn(async () => {});
+		const commandList = createList(
+			new Command({
+				name: 'ping',
+				ownerOnly: true,
+				permissions: PermissionFlagsBits.ManageGuild,
+				execute,
+			})
+		).setOwnerIds(['owner']);
+
+		const user = createChatInput({
+			permissions: PermissionFlagsBits.ManageGuild,
+		});
+		await run(commandList, user);
+		expect(user.reply).toHaveBeenCalledWith({
+			content: 'error.discord.forbidden',
+			ephemeral: true,
+		});
+		await run(commandList, createChatInput({ userId: 'owner' }));
+		expect(execute).not.toHaveBeenCalled();
+
+		await run(
+			commandList,
+			createChatInput({
+				userId: 'owner',
+				permissions: PermissionFlagsBits.ManageGuild,
+			})
+		);
+		expect(execute).toHaveBeenCalledTimes(1);
+	});
+
+	it('consumes the cooldown, and gives it back when the command fails', async () => {
+		const execute = vi
+			.fn(async () => {})
+			.mockRejectedValueOnce(new Error('failure'));
+		const commandList = createList(
+			new Command({
+				name: 'ping',
+				cooldown: Cooldown.perUser(60000),
+				execute,
+			})
+		);
+
+		await expect(run(commandList, createChatInput())).rejects.toThrow(
+			'failure'
+		);
+		await run(commandList, createChatInput());
+		expect(execute).toHaveBeenCalledTimes(2);
+
+		const limited = createChatInput();
+		await run(commandList, limited);
+		expect(execute).toHaveBeenCalledTimes(2);
+		expect(limited.reply).toHaveBeenCalledWith({
+			content: 'error.discord.cooldown',
+			ephemeral: true,
+		});
+	});
+
+	it('runs the middlewares of the list then of the command, until one denies', async () => {
+		const calls: string[] = [];
+		/**
+		 * Creates a middleware recording its calls
+		 * @param name The name recorded
+		 * @param deny Whether the middleware denies the command instead of calling next
+		 * @returns The middleware
+		 */
+		const record =
+			(name: string, deny = false): Middleware<unknown> =>
+			async (context, next) => {
+				calls.push(name);
+				if (deny) return context.deny('error.denied');
+				await next();
+				calls.push(`${name} done`);
+			};
+		const execute = vi.fn(async () => {
+			calls.push('execute');
+		});
+		const command = new Command({
+			name: 'ping',
+			cooldown: Cooldown.perUser(60000),
+			middlewares: [record('command')],
+			execute,
+		});
+		const commandList = createList(command).use(record('global'));
+
+		await run(commandList, createChatInput());
+		expect(calls).toEqual([
+			'global',
+			'command',
+			'execute',
+			'command done',
+			'global done',
+		]);
+
+		calls.length = 0;
+		command.middlewares.push(record('denying', true));
+		const denied = createChatInput({ userId: 'other' });
+		await run(commandList, denied);
+		expect(calls).toEqual([
+			'global',
+			'command',
+			'denying',
+			'command done',
+			'global done',
+		]);
+		expect(execute).toHaveBeenCalledTimes(1);
+		expect(denied.reply).toHaveBeenCalledWith({
+			content: 'error.denied',
+			ephemeral: true,
+		});
+
+		// The denied use isn't counted against the cooldown
+		calls.length = 0;
+		command.middlewares.pop();
+		await run(commandList, createChatInput({ userId: 'other' }));
+		expect(calls).toContain('execute');
+	});
+});
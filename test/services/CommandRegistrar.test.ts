@@ -0,0 +1,90 @@
+import { ApplicationCommandType, REST, Routes } from 'discord.js';
+import { describe, expect, it, vi } from 'vitest';
+import { CommandDefinition } from '../../src/model/CommandDefinition';
+import { CommandRegistrar } from '../../src/services/CommandRegistrar';
+import { RegisteredCommand } from '../../src/utils/CommandDiff';
+
+/**
+ * Builds the definition of a chat input command
+ * @param name The command name
+ * @param description The command description
+ * @returns The command definition
+ */
+const chatInput = (name: string, description: string): CommandDefinition => ({
+	name,
+	description,
+	type: ApplicationCommandType.ChatInput,
+});
+
+/**
+ * Creates a REST client answering with the registered commands
+ * @param registered The commands registered on Discord
+ * @returns The REST client
+ */
+const createRest = (registered: RegisteredCommand[]) => ({
+	get: vi.fn(async () => registered),
+	post: vi.fn(async () => {}),
+	patch: vi.fn(async () => {}),
+	delete: vi.fn(async () => {}),
+});
+
+const registered: RegisteredCommand[] = [
+	{ ...chatInput('ping', 'Replies with pong'), id: '1' },
+	{ ...chatInput('stats', 'Old description'), id: '2' },
+	{ ...chatInput('legacy', 'Removed command'), id: '3' },
+];
+const declared = [
+	chatInput('ping', 'Replies with pong'),
+	chatInput('stats', 'New description'),
+	chatInput('help', 'Lists the commands'),
+];
+
+describe('CommandRegistrar', () => {
+	it('creates new commands, patches changed ones and keeps the others', async () => {
+		const rest = createRest(registered);
+		const registrar = new CommandRegistrar(rest as unknown as REST, 'app');
+
+		const diff = await registrar.sync(declared);
+		expect(rest.post).toHaveBeenCalledTimes(1);
+		expect(rest.post).toHaveBeenCalledWith(Routes.applicationCommands('app'), {
+			body: declared[2],
+		});
+		expect(rest.patch).toHaveBeenCalledTimes(1);
+		expect(rest.patch).toHaveBeenCalledWith(
+			Routes.applicationCommand('app', '2'),
+			{ body: declared[1] }
+		);
+		expect(rest.delete).not.toHaveBeenCalled();
+		expect(diff.deleted).toEqual([]);
+	});
+
+	it('deletes commands that are no longer declared when pruning', async () => {
+		const rest = createRest(registered);
+		const registrar = new CommandRegistrar(
+			rest as unknown as REST,
+			'app',
+			true
+		);
+
+		await registrar.sync(declared, 'guild');
+		expect(rest.get).toHaveBeenCalledWith(
+			Routes.applicationGuildCommands('app', 'guild'),
+			expect.anything()
+		);
+		expect(rest.delete).toHaveBeenCalledTimes(1);
+		expect(rest.delete).toHaveBeenCalledWith(
+			Routes.applicationGuildCommand('app', 'guild', '3')
+		);
+	});
+
+	it('ignores the contexts Discord returns for guild commands', async () => {
+		const rest = createRest([
+			{ ...declared[0]!, id: '1', contexts: null, integration_types: [0] },
+		]);
+		const registrar = new CommandRegistrar(rest as unknown as REST, 'app');
+
+		const diff = await registrar.sync([declared[0]!], 'guild');
+		expect(diff.unchanged).toEqual(['ping']);
+		expect(rest.patch).not.toHaveBeenCalled();
+	});
+});
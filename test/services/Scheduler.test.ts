@@ -0,0 +1,200 @@
+import { Client, Events, Guild } from 'discord.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ScheduledJob } from '../../src/model/ScheduledJob';
+import { Scheduler } from '../../src/services/Scheduler';
+import { ManualClock } from '../../src/utils/Clock';
+
+/**
+ * Creates a client emitting guild events, with the guilds of its cache
+ * @param guildIds IDs of the guilds the bot is in
+ * @returns The client
+ */
+const createClient = (...guildIds: string[]) => {
+	const cache = new Map(guildIds.map((id) => [id, { id } as Guild]));
+	const listeners = new Map<string, (guild: Guild) => void>();
+	return {
+		guilds: { cache },
+		on: (event: string, listener: (guild: Guild) => void) =>
+			listeners.set(event, listener),
+		off: (event: string) => listeners.delete(event),
+		emit: (event: string, guild: Guild) => listeners.get(event)?.(guild),
+	};
+};
+
+describe('Scheduler', () => {
+	let clock: ManualClock;
+	let scheduler: Scheduler<string>;
+
+	beforeEach(() => {
+		clock = new ManualClock(new Date(2025, 0, 1));
+	});
+
+	/**
+	 * Starts a scheduler running jobs
+	 * @param jobs The jobs to run
+	 * @param client The client injected into the jobs
+	 * @returns The scheduler
+	 */
+	const start = (
+		jobs: ScheduledJob<string>[],
+		client = createClient()
+	): Scheduler<string> => {
+		scheduler = new Scheduler<string>(clock).add(...jobs);
+		scheduler.start(client as unknown as Client, 'service');
+		return scheduler;
+	};
+
+	afterEach(async () => {
+		await scheduler?.stop();
+	});
+
+	it('runs interval jobs on each interval', async () => {
+		const execute = vi.fn(async () => {});
+		start([new ScheduledJob({ name: 'tick', interval: 1000, execute })]);
+
+		await clock.advance(999);
+		expect(execute).not.toHaveBeenCalled();
+		await clock.advance(2501);
+		expect(execute).toHaveBeenCalledTimes(3);
+		expect(execute).toHaveBeenCalledWith(
+			expect.anything(),
+			'service',
+			undefined
+		);
+	});
+
+	it('runs on start when asked to', async () => {
+		const execute = vi.fn(async () => {});
+		start([
+			new ScheduledJob({
+				name: 'tick',
+				interval: 60000,
+				runOnStart: true,
+				execute,
+			}),
+		]);
+
+		await clock.advance(0);
+		expect(execute).toHaveBeenCalledTimes(1);
+	});
+
+	it('runs cron jobs at the matching minutes', async () => {
+		const runs: number[] = [];
+		start([
+			new ScheduledJob({
+				name: 'cron',
+				cron: '*/5 * * * *',
+				execute: async () => void runs.push(clock.now()),
+			}),
+		]);
+
+		await clock.advance(12 * 60000);
+		expect(runs).toEqual([
+			new Date(2025, 0, 1, 0, 5).getTime(),
+			new Date(2025, 0, 1, 0, 10).getTime(),
+		]);
+	});
+
+	it("doesn't overlap the runs of an instance", async () => {
+		let finish = () => {};
+		const execute = vi.fn(
+			() => new Promise<void>((resolve) => (finish = resolve))
+		);
+		start([new ScheduledJob({ name: 'slow', interval: 1000, execute })]);
+
+		await clock.advance(3000);
+		expect(execute).toHaveBeenCalledTimes(1);
+		finish();
+		// Let the run settle before the next timer
+		await new Promise((resolve) => setImmediate(resolve));
+		await clock.advance(1000);
+		expect(execute).toHaveBeenCalledTimes(2);
+		finish();
+	});
+
+	it('keeps running a job after a failure', async () => {
+		const execute = vi.fn(async () => {
+			throw new Error('boom');
+		});
+		start([new ScheduledJob({ name: 'failing', interval: 1000, execute })]);
+
+		await clock.advance(2000);
+		expect(execute).toHaveBeenCalledTimes(2);
+	});
+
+	it('runs per-guild jobs for the guilds the bot joins and leaves', async () => {
+		const client = createClient('g1', 'g2');
+		const runs: string[] = [];
+		start(
+			[
+				new ScheduledJob({
+					name: 'guild',
+					interval: 1000,
+					perGuild: true,
+					execute: async (_client, _service, guild) =>
+						void runs.push(guild!.id),
+				}),
+			],
+			client
+		);
+
+		await clock.advance(1000);
+		expect(runs.sort()).toEqual(['g1', 'g2']);
+
+		runs.length = 0;
+		client.guilds.cache.delete('g1');
+		client.emit(Events.GuildDelete, { id: 'g1' } as Guild);
+		const g3 = { id: 'g3' } as Guild;
+		client.guilds.cache.set('g3', g3);
+		client.emit(Events.GuildCreate, g3);
+		await clock.advance(1000);
+		expect(runs.sort()).toEqual(['g2', 'g3']);
+	});
+
+	it('stops the jobs and waits for the runs in progress', async () => {
+		let finish = () => {};
+		let finished = false;
+		const execute = vi.fn(
+			() =>
+				new Promise<void>((resolve) => {
+					finish = () => {
+						finished = true;
+						resolve();
+					};
+				})
+		);
+		start([new ScheduledJob({ name: 'slow', interval: 1000, execute })]);
+		await clock.advance(1000);
+
+		const stopped = scheduler.stop();
+		finish();
+		await stopped;
+		expect(finished).toBe(true);
+		await clock.advance(5000);
+		expect(execute).toHaveBeenCalledTimes(1);
+	});
+
+	it('rejects duplicate names and invalid schedules', () => {
+		scheduler = new Scheduler<string>(clock).add(
+			new ScheduledJob({ name: 'job', interval: 1000 })
+		);
+
+		expect(() =>
+			scheduler.add(new ScheduledJob({ name: 'job', interval: 1000 }))
+		).toThrow('already scheduled');
+		expect(() => scheduler.add(new ScheduledJob({ name: 'none' }))).toThrow(
+			'either a cron expression or an interval'
+		);
+		expect(() =>
+			scheduler.add(
+				new ScheduledJob({ name: 'both', cron: '* * * * *', interval: 1000 })
+			)
+		).toThrow('either a cron expression or an interval');
+		expect(() =>
+			scheduler.add(new ScheduledJob({ name: 'negative', interval: -1 }))
+		).toThrow('positive interval');
+		expect(() =>
+			scheduler.add(new ScheduledJob({ name: 'cron', cron: '* * *' }))
+		).toThrow('Invalid cron expression');
+	});
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+	AUTOCOMPLETE_MAX_CHOICES,
+	filterChoices,
+} from '../../src/utils/Autocomplete';
+
+/**
+ * Gets the names of the choices matching a query
+ * @param query The value typed by the user
+ * @param candidates The candidate names
+ * @returns The names of the matching choices, in order
+ */
+const names = (query: string, candidates: string[]) =>
+	filterChoices(query, candidates).map((choice) => choice.name);
+
+describe('filterChoices', () => {
+	it('orders exact matches, prefixes, word prefixes, substrings then subsequences', () => {
+		const candidates = [
+			'Reapers',
+			'The Apex',
+			'Grape',
+			'Apex Legends',
+			'apex',
+			'Xylophone',
+		];
+
+		expect(names('apex', candidates)).toEqual([
+			'apex',
+			'Apex Legends',
+			'The Apex',
+		]);
+		expect(names('ape', candidates)).toEqual([
+			'Apex Legends',
+			'apex',
+			'The Apex',
+			'Reapers',
+			'Grape',
+		]);
+		expect(names('rps', candidates)).toEqual(['Reapers']);
+	});
+
+	it('ignores case and accents', () => {
+		expect(names('ECOLE', ['École', 'Collège'])).toEqual(['École']);
+		expect(names('college', ['École', 'Collège'])).toEqual(['Collège']);
+	});
+
+	it('keeps every candidate for an empty query', () => {
+		expect(names('  ', ['b', 'a'])).toEqual(['b', 'a']);
+	});
+
+	it('matches on values as well as names', () => {
+		expect(
+			filterChoices('fr', [
+				{ name: 'French', value: 'fr' },
+				{ name: 'German', value: 'de' },
+			])
+		).toEqual([{ name: 'French', value: 'fr' }]);
+	});
+
+	it('converts plain values to choices', () => {
+		expect(filterChoices('1', [10, 'x', 21])).toEqual([
+			{ name: '10', value: 10 },
+			{ name: '21', value: 21 },
+		]);
+	});
+
+	it('truncates names and the number of choices to what Discord accepts', () => {
+		const candidates = Array.from(
+			{ length: 40 },
+			(_, index) => `item ${index}`
+		);
+
+		expect(filterChoices('', candidates)).toHaveLength(
+			AUTOCOMPLETE_MAX_CHOICES
+		);
+		expect(filterChoices('item', candidates, 5)).toHaveLength(5);
+		expect(filterChoices('', candidates, 50)).toHaveLength(
+			AUTOCOMPLETE_MAX_CHOICES
+		);
+		expect(filterChoices('', ['x'.repeat(150)])[0]?.name).toHaveLength(100);
+	});
+});
@@ -0,0 +1,176 @@
+import {
+	ApplicationCommandOptionType,
+	ApplicationCommandType,
+} from 'discord.js';
+import { describe, expect, it } from 'vitest';
+import { CommandDefinition } from '../../src/model/CommandDefinition';
+import {
+	diffCommands,
+	hasChanges,
+	isSameCommand,
+	RegisteredCommand,
+	summarizeDiff,
+} from '../../src/utils/CommandDiff';
+
+/**
+ * Builds the definition of a chat input command
+ * @param name The command name
+ * @param description The command description
+ * @returns The command definition
+ */
+const chatInput = (name: string, description: string): CommandDefinition => ({
+	name,
+	description,
+	type: ApplicationCommandType.ChatInput,
+});
+
+const ping: CommandDefinition = {
+	...chatInput('ping', 'Replies with pong'),
+	options: [
+		{
+			name: 'target',
+			description: 'Who to ping',
+			type: ApplicationCommandOptionType.User,
+		},
+	],
+};
+
+describe('isSameCommand', () => {
+	it('ignores the fields Discord adds and the defaults it fills in', () => {
+		const registered = {
+			id: '123',
+			application_id: '456',
+			version: '789',
+			type: ApplicationCommandType.ChatInput,
+			name: 'ping',
+			description: 'Replies with pong',
+			nsfw: false,
+			default_member_permissions: null,
+			name_localizations: {},
+			options: [
+				{
+					type: ApplicationCommandOptionType.User,
+					description: 'Who to ping',
+					name: 'target',
+					required: false,
+					autocomplete: false,
+					choices: [],
+				},
+			],
+		} as unknown as RegisteredCommand;
+
+		expect(isSameCommand(registered, ping)).toBe(true);
+	});
+
+	it('detects changed options, including their order', () => {
+		const option = {
+			name: 'count',
+			description: 'How many times',
+			type: ApplicationCommandOptionType.Integer,
+		};
+
+		expect(
+			isSameCommand(ping, {
+				...ping,
+				options: [{ ...ping.options![0]!, required: true }],
+			})
+		).toBe(false);
+		expect(
+			isSameCommand(
+				{ ...ping, options: [...ping.options!, option] },
+				{ ...ping, options: [option, ...ping.options!] }
+			)
+		).toBe(false);
+	});
+
+	it('compares contexts as sets, and only between global commands', () => {
+		const global: CommandDefinition = {
+			...ping,
+			contexts: [0, 1],
+			integration_types: [0],
+		};
+
+		expect(isSameCommand(global, { ...global, contexts: [1, 0] })).toBe(true);
+		expect(isSameCommand(global, ping)).toBe(false);
+		expect(isSameCommand(global, ping, true)).toBe(true);
+	});
+
+	it('detects changed choices and localizations', () => {
+		const withChoices = (...values: string[]): CommandDefinition => ({
+			...ping,
+			options: [
+				{
+					name: 'mode',
+					description: 'Mode',
+					type: ApplicationCommandOptionType.String,
+					choices: values.map((value) => ({ name: value, value })),
+				},
+			],
+		});
+
+		expect(isSameCommand(withChoices('a', 'b'), withChoices('a', 'b'))).toBe(
+			true
+		);
+		expect(isSameCommand(withChoices('a', 'b'), withChoices('a', 'c'))).toBe(
+			false
+		);
+		expect(
+			isSameCommand(ping, {
+				...ping,
+				description_localizations: { fr: 'Répond pong' },
+			})
+		).toBe(false);
+	});
+});
+
+describe('diffCommands', () => {
+	it('sorts commands into created, updated, deleted and unchanged', () => {
+		const current: RegisteredCommand[] = [
+			{ ...ping, id: '1' },
+			{ ...chatInput('stats', 'Old description'), id: '2' },
+			{ ...chatInput('legacy', 'Removed command'), id: '3' },
+		];
+		const desired: CommandDefinition[] = [
+			ping,
+			chatInput('stats', 'New description'),
+			chatInput('help', 'Lists the commands'),
+		];
+
+		const diff = diffCommands(current, desired);
+		expect(diff).toEqual({
+			created: [desired[2]],
+			updated: [{ id: '2', definition: desired[1] }],
+			deleted: [current[2]],
+			unchanged: ['ping'],
+		});
+		expect(hasChanges(diff)).toBe(true);
+		expect(summarizeDiff(diff)).toBe(
+			'1 created (help), 1 updated (stats), 1 deleted (legacy), 1 unchanged'
+		);
+	});
+
+	it('keys commands by type as well as name', () => {
+		const report: CommandDefinition = {
+			name: 'report',
+			description: '',
+			type: ApplicationCommandType.User,
+		};
+		const current: RegisteredCommand[] = [
+			{ ...chatInput('report', 'Reports a user'), id: '1' },
+		];
+
+		const diff = diffCommands(current, [report]);
+		expect(diff.created).toEqual([report]);
+		expect(diff.deleted).toEqual(current);
+		expect(diff.updated).toEqual([]);
+	});
+
+	it('has no change when everything is registered', () => {
+		const diff = diffCommands([{ ...ping, id: '1' }], [ping]);
+
+		expect(hasChanges(diff)).toBe(false);
+		expect(summarizeDiff(diff)).toBe(
+			'0 created, 0 updated, 0 deleted, 1 unchanged'
+		);
+	});
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { CronExpression } from '../../src/utils/CronExpression';
+
+/**
+ * Gets the next run of an expression after a local date
+ * @param source The cron expression
+ * @param after The local date to search from, as Date constructor arguments
+ * @returns The next matching date
+ */
+const next = (
+	source: string,
+	...after: [number, number, number, ...number[]]
+) => CronExpression.parse(source).next(new Date(...after));
+
+describe('CronExpression', () => {
+	it('finds the next matching minute strictly after a date', () => {
+		expect(next('*/15 * * * *', 2024, 0, 1, 10, 7)).toEqual(
+			new Date(2024, 0, 1, 10, 15)
+		);
+		expect(next('*/15 * * * *', 2024, 0, 1, 10, 15)).toEqual(
+			new Date(2024, 0, 1, 10, 30)
+		);
+		expect(next('*/15 * * * *', 2024, 0, 1, 10, 14, 59, 999)).toEqual(
+			new Date(2024, 0, 1, 10, 15)
+		);
+	});
+
+	it('rolls over hours, days, months and years', () => {
+		expect(next('0 0 * * *', 2024, 0, 31, 23, 59)).toEqual(
+			new Date(2024, 1, 1, 0, 0)
+		);
+		expect(next('30 8 1 1 *', 2024, 5, 15)).toEqual(
+			new Date(2025, 0, 1, 8, 30)
+		);
+	});
+
+	it('supports lists, ranges and steps', () => {
+		const from = [2024, 0, 1, 10, 0] as const;
+		expect(next('5,45 * * * *', ...from)).toEqual(new Date(2024, 0, 1, 10, 5));
+		expect(next('0-30/10 * * * *', 2024, 0, 1, 10, 20)).toEqual(
+			new Date(2024, 0, 1, 10, 30)
+		);
+		expect(next('0-30/10 * * * *', 2024, 0, 1, 10, 30)).toEqual(
+			new Date(2024, 0, 1, 11, 0)
+		);
+		// `5/15` runs from 5 to the end of the range
+		expect(next('5/15 * * * *', 2024, 0, 1, 10, 36)).toEqual(
+			new Date(2024, 0, 1, 10, 50)
+		);
+	});
+
+	it('supports macros and names', () => {
+		expect(next('@hourly', 2024, 0, 1, 10, 1)).toEqual(
+			new Date(2024, 0, 1, 11, 0)
+		);
+		expect(next('@daily', 2024, 0, 1, 10)).toEqual(new Date(2024, 0, 2));
+		expect(next('@MONTHLY', 2024, 0, 15)).toEqual(new Date(2024, 1, 1));
+		// January 1st 2024 is a Monday
+		expect(next('0 9 * feb MON', 2024, 0, 1)).toEqual(new Date(2024, 1, 5, 9));
+	});
+
+	it('accepts 7 for Sunday', () => {
+		expect(next('0 0 * * 7', 2024, 0, 1)).toEqual(new Date(2024, 0, 7));
+		expect(next('0 0 * * 0', 2024, 0, 1)).toEqual(new Date(2024, 0, 7));
+	});
+
+	it('matches either the day of month or the day of week when both are restricted', () => {
+		// September 6th 2024 is a Friday
+		expect(next('0 0 13 * fri', 2024, 8, 1)).toEqual(new Date(2024, 8, 6));
+		expect(next('0 0 13 * fri', 2024, 8, 12)).toEqual(new Date(2024, 8, 13));
+		// A wildcard day of month only keeps the day of week
+		expect(next('0 0 * * fri', 2024, 8, 12)).toEqual(new Date(2024, 8, 13));
+		expect(next('0 0 13 * *', 2024, 8, 1)).toEqual(new Date(2024, 8, 13));
+	});
+
+	it('waits for the next leap year', () => {
+		expect(next('0 0 29 2 *', 2025, 2, 1)).toEqual(new Date(2028, 1, 29));
+	});
+
+	it('throws when no date ever matches', () => {
+		expect(() => next('0 0 30 2 *', 2024, 0, 1)).toThrow(/never matches/);
+	});
+
+	it.each([
+		['', 'expected 5 fields'],
+		['* * * *', 'expected 5 fields'],
+		['* * * * * *', 'expected 5 fields'],
+		['60 * * * *', 'invalid field "60"'],
+		['* 24 * * *', 'invalid field "24"'],
+		['* * 0 * *', 'invalid field "0"'],
+		['* * * 13 *', 'invalid field "13"'],
+		['* * * * 8', 'invalid field "8"'],
+		['*/0 * * * *', 'invalid field "*/0"'],
+		['5-1 * * * *', 'invalid field "5-1"'],
+		['1/2/3 * * * *', 'invalid field "1/2/3"'],
+		['1-2-3 * * * *', 'invalid field "1-2-3"'],
+		['a * * * *', 'invalid field "a"'],
+		['* * * foo *', 'invalid field "foo"'],
+	])('rejects "%s"', (source, message) => {
+		expect(() => CronExpression.parse(source)).toThrow(message);
+	});
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+	CUSTOM_ID_MAX_LENGTH,
+	decodeCustomId,
+	encodeCustomId,
+	encodeStateCustomId,
+	getCustomIdPrefix,
+	getCustomIdStateToken,
+	PayloadSchema,
+} from '../../src/utils/CustomIdCodec';
+import { LocaleError } from '../../src/model/LocaleError';
+
+const SCHEMA = {
+	user: 'string',
+	page: 'number',
+	confirm: 'boolean',
+} as const satisfies PayloadSchema;
+
+describe('encodeCustomId / decodeCustomId', () => {
+	it('round-trips a typed payload', () => {
+		const payload = { user: 'alice', page: 3, confirm: true };
+		const customId = encodeCustomId('vote', payload, SCHEMA);
+
+		expect(customId).toBe('vote;user=alice;page=3;confirm=1');
+		expect(decodeCustomId(customId, SCHEMA)).toEqual({
+			prefix: 'vote',
+			payload,
+		});
+	});
+
+	it('round-trips values containing separators', () => {
+		const payload = { user: 'a;b=c%3B 100%' };
+		const customId = encodeCustomId('pre;fix', payload);
+
+		expect(decodeCustomId(customId)).toEqual({ prefix: 'pre;fix', payload });
+		expect(getCustomIdPrefix(customId)).toBe('pre;fix');
+	});
+
+	it('skips null and undefined values', () => {
+		const customId = encodeCustomId('vote', {
+			user: 'alice',
+			page: undefined,
+			confirm: null,
+		});
+
+		expect(customId).toBe('vote;user=alice');
+		expect(decodeCustomId(customId, SCHEMA).payload).toEqual({ user: 'alice' });
+	});
+
+	it('keeps undeclared keys as strings and drops invalid numbers', () => {
+		const { payload } = decodeCustomId('vote;page=abc;extra=1', SCHEMA);
+
+		expect(payload).toEqual({ extra: '1' });
+	});
+
+	it('decodes the legacy key:=value format', () => {
+		expect(decodeCustomId('vote;user:=alice;page:=2', SCHEMA)).toEqual({
+			prefix: 'vote',
+			payload: { user: 'alice', page: 2 },
+		});
+	});
+
+	it('falls back to the compact encoding when the keyed one is too long', () => {
+		const payload = { user: 'x'.repeat(80), page: 12, confirm: false };
+		const customId = encodeCustomId('vote', payload, SCHEMA);
+
+		expect(customId).toBe(`vote;~;${'x'.repeat(80)};12;0`);
+		expect(customId.length).toBeLessThanOrEqual(CUSTOM_ID_MAX_LENGTH);
+		expect(decodeCustomId(customId, SCHEMA).payload).toEqual(payload);
+	});
+
+	it('omits empty compact values on decode', () => {
+		const customId = encodeCustomId('vote', { user: 'y'.repeat(91) }, SCHEMA);
+
+		expect(decodeCustomId(customId, SCHEMA).payload).toEqual({
+			user: 'y'.repeat(91),
+		});
+	});
+
+	it('throws when the customId is too long even once compacted', () => {
+		expect(() =>
+			encodeCustomId('vote', { user: 'z'.repeat(120) }, SCHEMA)
+		).toThrow(LocaleError);
+		expect(() => encodeCustomId('vote', { user: 'z'.repeat(120) })).toThrow(
+			LocaleError
+		);
+	});
+});
+
+describe('encodeStateCustomId / getCustomIdStateToken', () => {
+	it('round-trips a state token', () => {
+		const customId = encodeStateCustomId('vote', 'abc123');
+
+		expect(customId).toBe('vote;@abc123');
+		expect(getCustomIdStateToken(customId)).toBe('abc123');
+		expect(getCustomIdPrefix(customId)).toBe('vote');
+	});
+
+	it("doesn't mistake a keyed payload for a state token", () => {
+		expect(getCustomIdStateToken('vote;@user=alice')).toBeUndefined();
+		expect(getCustomIdStateToken('vote;user=alice')).toBeUndefined();
+		expect(getCustomIdStateToken('vote')).toBeUndefined();
+	});
+
+	it('throws when the token makes the customId too long', () => {
+		expect(() => encodeStateCustomId('vote', 't'.repeat(100))).toThrow(
+			LocaleError
+		);
+	});
+});
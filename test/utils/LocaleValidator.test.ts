@@ -0,0 +1,160 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+	formatLocaleIssues,
+	LocaleIssueType,
+	validateCatalogs,
+	validateLocales,
+} from '../../src/utils/LocaleValidator';
+
+describe('validateCatalogs', () => {
+	const en = {
+		greeting: 'Hello {{name}}',
+		error: { missing: 'Missing {{{field}}}', generic: 'Oops' },
+	};
+
+	it('accepts matching catalogs', () => {
+		const fr = {
+			greeting: 'Bonjour {{ name }}',
+			error: { missing: '{{{field}}} manquant', generic: 'Oups' },
+		};
+
+		expect(validateCatalogs({ en, fr }, 'en')).toEqual([]);
+	});
+
+	it('reports missing and extra keys with object notation', () => {
+		const fr = {
+			greeting: 'Bonjour {{name}}',
+			error: { missing: '{{{field}}} manquant', unknown: 'Inconnu' },
+		};
+
+		expect(validateCatalogs({ en, fr }, 'en')).toEqual([
+			{ locale: 'fr', key: 'error.generic', type: LocaleIssueType.MISSING_KEY },
+			{ locale: 'fr', key: 'error.unknown', type: LocaleIssueType.EXTRA_KEY },
+		]);
+	});
+
+	it('reports placeholder mismatches', () => {
+		const fr = {
+			greeting: 'Bonjour {{user}}',
+			error: { missing: 'Champ manquant', generic: 'Oups {{code}}' },
+		};
+
+		expect(validateCatalogs({ en, fr }, 'en')).toEqual([
+			{
+				locale: 'fr',
+				key: 'greeting',
+				type: LocaleIssueType.PLACEHOLDER_MISMATCH,
+				details: 'expected [name], found [user]',
+			},
+			{
+				locale: 'fr',
+				key: 'error.missing',
+				type: LocaleIssueType.PLACEHOLDER_MISMATCH,
+				details: 'expected [field], found []',
+			},
+			{
+				locale: 'fr',
+				key: 'error.generic',
+				type: LocaleIssueType.PLACEHOLDER_MISMATCH,
+				details: 'expected [], found [code]',
+			},
+		]);
+	});
+
+	it('reports a missing default catalog', () => {
+		expect(validateCatalogs({ fr: {} }, 'en')).toEqual([
+			{ locale: 'en', key: '', type: LocaleIssueType.MISSING_FILE },
+		]);
+	});
+});
+
+describe('validateLocales', () => {
+	let directory: string;
+
+	/**
+	 * Writes a locale file in the test directory
+	 * @param locale The locale
+	 * @param content The content of the file
+	 */
+	const write = (locale: string, content: unknown) =>
+		fs.writeFileSync(
+			path.join(directory, `${locale}.json`),
+			typeof content === 'string' ? content : JSON.stringify(content)
+		);
+
+	beforeEach(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'locales-'));
+	});
+
+	afterEach(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('keeps the shipped locale files consistent', () => {
+		const locales = path.join(__dirname, '../../src/locales');
+
+		expect(
+			formatLocaleIssues(
+				validateLocales(locales, 'en', ['en', 'fr', 'de', 'es', 'it'])
+			)
+		).toBe('');
+	});
+
+	it('reports invalid and missing files', () => {
+		write('en', { key: 'value' });
+		write('fr', '{ not json');
+
+		const issues = validateLocales(directory, 'en', ['en', 'fr', 'de']);
+		expect(issues.map(({ locale, type }) => ({ locale, type }))).toEqual([
+			{ locale: 'fr', type: LocaleIssueType.INVALID_FILE },
+			{ locale: 'de', type: LocaleIssueType.MISSING_FILE },
+		]);
+	});
+
+	it('reports a missing default locale once', () => {
+		write('fr', { key: 'valeur' });
+
+		expect(validateLocales(directory, 'en', ['en', 'fr'])).toEqual([
+			{ locale: 'en', key: '', type: LocaleIssueType.MISSING_FILE },
+		]);
+	});
+
+	it('stops at an invalid default locale', () => {
+		write('en', '[');
+		write('fr', { key: 'valeur' });
+
+		const issues = validateLocales(directory, 'en');
+		expect(issues).toHaveLength(1);
+		expect(issues[0]).toMatchObject({
+			locale: 'en',
+			type: LocaleIssueType.INVALID_FILE,
+		});
+	});
+
+	it('reports a missing directory as a missing default locale', () => {
+		expect(validateLocales(path.join(directory, 'none'), 'en')).toEqual([
+			{ locale: 'en', key: '', type: LocaleIssueType.MISSING_FILE },
+		]);
+	});
+});
+
+describe('formatLocaleIssues', () => {
+	it('formats one issue per line', () => {
+		expect(
+			formatLocaleIssues([
+				{ locale: 'fr', key: '', type: LocaleIssueType.MISSING_FILE },
+				{
+					locale: 'de',
+					key: 'greeting',
+					type: LocaleIssueType.PLACEHOLDER_MISMATCH,
+					details: 'expected [name], found []',
+				},
+			])
+		).toBe(
+			'fr : missing_file\nde greeting : placeholder_mismatch (expected [name], found [])'
+		);
+	});
+});
@@ -0,0 +1,322 @@
+import {
+	ApplicationCommandOptionType,
+	Attachment,
+	ChannelType,
+	Message,
+} from 'discord.js';
+import { describe, expect, it } from 'vitest';
+import {
+	AnyCommandOption,
+	Command,
+	CommandOption,
+	SubCommand,
+	SubCommandGroup,
+} from '../../src/model/SimpleDiscordModels';
+import {
+	parsePrefixOptions,
+	stripPrefix,
+	tokenize,
+} from '../../src/utils/PrefixCommandParser';
+
+const USER_ID = '123456789012345678';
+const TEXT_CHANNEL_ID = '223456789012345678';
+const VOICE_CHANNEL_ID = '323456789012345678';
+
+/**
+ * Creates a message resolving a single user and two channels
+ * @param attachments The attachments of the message
+ * @returns The message
+ */
+const createMessage = (...attachments: Attachment[]) => {
+	const user = { id: USER_ID };
+	const channels = new Map([
+		[TEXT_CHANNEL_ID, { id: TEXT_CHANNEL_ID, type: ChannelType.GuildText }],
+		[VOICE_CHANNEL_ID, { id: VOICE_CHANNEL_ID, type: ChannelType.GuildVoice }],
+	]);
+	return {
+		client: {
+			users: {
+				fetch: async (id: string) => {
+					if (id !== USER_ID) throw new Error('Unknown User');
+					return user;
+				},
+			},
+			channels: { fetch: async (id: string) => channels.get(id) ?? null },
+		},
+		guild: {
+			members: { fetch: async () => ({ id: USER_ID }) },
+			roles: { fetch: async () => null },
+		},
+		attachments: new Map(
+			attachments.map((attachment) => [attachment.id, attachment])
+		),
+	} as unknown as Message;
+};
+
+/**
+ * Parses the arguments of a command declaring options
+ * @param options The options of the command
+ * @param line The arguments, as typed after the command name
+ * @param message Optional message the arguments come from
+ * @returns The option data
+ */
+const parse = (
+	options: AnyCommandOption[],
+	line: string,
+	message = createMessage()
+) =>
+	parsePrefixOptions(
+		new Command({ name: 'test', options }),
+		tokenize(line),
+		message
+	);
+
+describe('stripPrefix', () => {
+	it('strips the default prefix', () => {
+		expect(stripPrefix('!bet 10', {})).toBe('bet 10');
+		expect(stripPrefix('bet 10', {})).toBeUndefined();
+		expect(stripPrefix('!   ', {})).toBeUndefined();
+	});
+
+	it('strips custom prefixes', () => {
+		const options = { prefixes: ['?', '>>'] };
+
+		expect(stripPrefix('>> bet 10', options)).toBe('bet 10');
+		expect(stripPrefix('?bet', options)).toBe('bet');
+		expect(stripPrefix('!bet', options)).toBeUndefined();
+	});
+
+	it('strips mentions of the bot unless disabled', () => {
+		expect(stripPrefix(`<@${USER_ID}> bet`, {}, USER_ID)).toBe('bet');
+		expect(stripPrefix(`<@!${USER_ID}> bet`, {}, USER_ID)).toBe('bet');
+		expect(stripPrefix(`<@${USER_ID}> bet`, {})).toBeUndefined();
+		expect(
+			stripPrefix(`<@${USER_ID}> bet`, { mention: false }, USER_ID)
+		).toBeUndefined();
+	});
+});
+
+describe('tokenize', () => {
+	it('splits on whitespace and keeps quoted arguments together', () => {
+		expect(tokenize(`  a  "b c" 'd e'   f `)).toEqual(['a', 'b c', 'd e', 'f']);
+	});
+
+	it('unescapes quotes inside quoted arguments', () => {
+		expect(tokenize(`"say \\"hi\\"" 'it\\'s'`)).toEqual(['say "hi"', "it's"]);
+	});
+
+	it('keeps empty quoted arguments', () => {
+		expect(tokenize(`a "" b`)).toEqual(['a', '', 'b']);
+		expect(tokenize('')).toEqual([]);
+	});
+});
+
+describe('parsePrefixOptions', () => {
+	const amount = CommandOption.integer('amount', 'Amount', true, [], {
+		min_value: 1,
+		max_value: 100,
+	});
+	const confirm = CommandOption.boolean('confirm', 'Confirm');
+	const reason = CommandOption.string('reason', 'Reason');
+
+	it('fills options in order, the last string taking the remaining arguments', async () => {
+		expect(
+			await parse([amount, confirm, reason], '10 yes for the win')
+		).toEqual([
+			{ name: 'amount', type: ApplicationCommandOptionType.Integer, value: 10 },
+			{
+				name: 'confirm',
+				type: ApplicationCommandOptionType.Boolean,
+				value: true,
+			},
+			{
+				name: 'reason',
+				type: ApplicationCommandOptionType.String,
+				value: 'for the win',
+			},
+		]);
+	});
+
+	it('fills options by name', async () => {
+		const data = await parse([amount, confirm, reason], 'confirm:off amount:5');
+
+		expect(data.map(({ name, value }) => [name, value])).toEqual([
+			['amount', 5],
+			['confirm', false],
+		]);
+	});
+
+	it('matches choices by value or name', async () => {
+		const mode = CommandOption.string('mode', 'Mode', true, false, [
+			{ name: 'Fast', value: 'fast_mode' },
+		]);
+
+		expect((await parse([mode], 'FAST'))[0]?.value).toBe('fast_mode');
+		expect((await parse([mode], 'fast_mode'))[0]?.value).toBe('fast_mode');
+		await expect(parse([mode], 'slow')).rejects.toMatchObject({
+			i18nKey: 'error.prefix.invalid_choice',
+			i18nArgs: { option: 'mode', choices: 'Fast' },
+		});
+	});
+
+	it.each([
+		['1.5', 'error.prefix.invalid_argument'],
+		['abc', 'error.prefix.invalid_argument'],
+		['0', 'error.prefix.too_small'],
+		['101', 'error.prefix.too_large'],
+	])('rejects the integer "%s"', async (value, i18nKey) => {
+		await expect(parse([amount], value)).rejects.toMatchObject({ i18nKey });
+	});
+
+	it('checks string lengths', async () => {
+		const code = CommandOption.string('code', 'Code', true, false, [], {
+			min_length: 2,
+			max_length: 4,
+		});
+
+		await expect(parse([code], 'a')).rejects.toMatchObject({
+			i18nKey: 'error.prefix.too_short',
+		});
+		await expect(parse([code], 'abcde')).rejects.toMatchObject({
+			i18nKey: 'error.prefix.too_long',
+		});
+	});
+
+	it('rejects missing and excess arguments', async () => {
+		await expect(parse([amount, confirm], '')).rejects.toMatchObject({
+			i18nKey: 'error.prefix.missing_argument',
+			i18nArgs: { option: 'amount' },
+		});
+		await expect(parse([amount, confirm], '1 yes extra')).rejects.toMatchObject(
+			{
+				i18nKey: 'error.prefix.too_many_arguments',
+				i18nArgs: { value: 'extra' },
+			}
+		);
+	});
+
+	it('resolves user mentions and raw IDs', async () => {
+		const user = CommandOption.user('user', 'User', true);
+
+		expect((await parse([user], `<@!${USER_ID}>`))[0]).toMatchObject({
+			value: USER_ID,
+			user: { id: USER_ID },
+			member: { id: USER_ID },
+		});
+		expect((await parse([user], USER_ID))[0]?.value).toBe(USER_ID);
+		await expect(parse([user], 'nobody')).rejects.toMatchObject({
+			i18nKey: 'error.prefix.invalid_argument',
+		});
+	});
+
+	it('accepts every channel type when none is set', async () => {
+		const channel = CommandOption.channel('channel', 'Channel', true);
+
+		expect((await parse([channel], `<#${VOICE_CHANNEL_ID}>`))[0]?.value).toBe(
+			VOICE_CHANNEL_ID
+		);
+	});
+
+	it('restricts channels to the set channel types', async () => {
+		const channel = CommandOption.channel('channel', 'Channel', true, [
+			ChannelType.GuildText,
+		]);
+
+		expect((await parse([channel], `<#${TEXT_CHANNEL_ID}>`))[0]?.value).toBe(
+			TEXT_CHANNEL_ID
+		);
+		await expect(
+			parse([channel], `<#${VOICE_CHANNEL_ID}>`)
+		).rejects.toMatchObject({ i18nKey: 'error.prefix.invalid_argument' });
+	});
+
+	it('fills attachment options with the attachments of the message', async () => {
+		const file = { id: 'file' } as Attachment;
+		const options = [
+			CommandOption.attachment('file', 'File', true),
+			CommandOption.attachment('other', 'Other file'),
+			reason,
+		];
+
+		expect(await parse(options, 'hello', createMessage(file))).toEqual([
+			{
+				name: 'file',
+				type: ApplicationCommandOptionType.Attachment,
+				value: 'file',
+				attachment: file,
+			},
+			{
+				name: 'reason',
+				type: ApplicationCommandOptionType.String,
+				value: 'hello',
+			},
+		]);
+		await expect(parse(options, 'hello')).rejects.toMatchObject({
+			i18nKey: 'error.prefix.missing_argument',
+			i18nArgs: { option: 'file' },
+		});
+	});
+
+	describe('with subcommands', () => {
+		const command = new Command({
+			name: 'bet',
+			subcommands: [new SubCommand({ name: 'create', options: [amount] })],
+			subcommandGroups: [
+				new SubCommandGroup({
+					name: 'admin',
+					subcommands: [new SubCommand({ name: 'reset', options: [] })],
+				}),
+			],
+		});
+
+		it('picks the subcommand from the first argument', async () => {
+			expect(
+				await parsePrefixOptions(command, ['Create', '5'], createMessage())
+			).toEqual([
+				{
+					name: 'create',
+					type: ApplicationCommandOptionType.Subcommand,
+					options: [
+						{
+							name: 'amount',
+							type: ApplicationCommandOptionType.Integer,
+							value: 5,
+						},
+					],
+				},
+			]);
+		});
+
+		it('picks the group and subcommand from the first two arguments', async () => {
+			expect(
+				await parsePrefixOptions(command, ['admin', 'reset'], createMessage())
+			).toEqual([
+				{
+					name: 'admin',
+					type: ApplicationCommandOptionType.SubcommandGroup,
+					options: [
+						{
+							name: 'reset',
+							type: ApplicationCommandOptionType.Subcommand,
+							options: [],
+						},
+					],
+				},
+			]);
+		});
+
+		it('rejects unknown subcommands', async () => {
+			await expect(
+				parsePrefixOptions(command, ['delete'], createMessage())
+			).rejects.toMatchObject({
+				i18nKey: 'error.discord.subcommand_not_found',
+				i18nArgs: { command: 'bet' },
+			});
+			await expect(
+				parsePrefixOptions(command, ['admin', 'delete'], createMessage())
+			).rejects.toMatchObject({
+				i18nArgs: { command: 'bet admin' },
+			});
+		});
+	});
+});